@@ -0,0 +1,123 @@
+/**
+ * Audit Log
+ * Append-only JSONL record of every mutating Railway call: when, for which
+ * tool, with which (redacted) arguments, through which token, against which
+ * resources, and how it ended. Failures to write are logged, never thrown.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { isSecretKey, maskValue, redactText } from "./redact.js";
+
+export const DEFAULT_AUDIT_FILE = join(homedir(), ".local", "state", "railway-mcp", "audit.jsonl");
+
+export type AuditOutcome = "ok" | "error" | "denied";
+
+export interface AuditEntry {
+  timestamp: string;
+  /** MCP tool being served (absent for calls made outside a tool) */
+  tool?: string;
+  /** HTTP client key name (absent over stdio) */
+  client?: string;
+  /** Client method, e.g. upsertVariables or rawQuery */
+  action: string;
+  /** Token label the call went through (absent when no token could be picked) */
+  token?: string;
+  args: Record<string, unknown>;
+  /** IDs the call touched, by kind */
+  targets: Record<string, string>;
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditFilter {
+  /** ISO timestamps bounding the entry time (inclusive) */
+  since?: string;
+  until?: string;
+  /** Matches the tool or the client method */
+  tool?: string;
+  projectId?: string;
+  outcome?: AuditOutcome;
+  /** Only entries made through these token labels */
+  tokens?: string[];
+  /** Most recent entries to return (default 50) */
+  limit?: number;
+}
+
+/** Mask secret-looking keys and credentials in strings, at any depth */
+export function redactArgs(value: unknown, key = ""): unknown {
+  if (typeof value === "string") return isSecretKey(key) ? maskValue(value) : redactText(value);
+  if (Array.isArray(value)) return value.map((v) => redactArgs(v, key));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactArgs(v, k)]));
+  }
+  return value;
+}
+
+function parseTime(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`${name} must be an ISO timestamp (got "${value}")`);
+  return time;
+}
+
+export class AuditLog {
+  private ready = false;
+
+  constructor(private filePath: string) {}
+
+  get path() {
+    return this.filePath;
+  }
+
+  record(entry: AuditEntry) {
+    try {
+      if (!this.ready) {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        this.ready = true;
+      }
+      appendFileSync(this.filePath, JSON.stringify(entry) + "\n", { mode: 0o600 });
+    } catch (e) {
+      console.error(
+        `Railway MCP: could not write audit log ${this.filePath}:`,
+        e instanceof Error ? e.message : e
+      );
+    }
+  }
+
+  /** Matching entries, newest first */
+  query(filter: AuditFilter = {}): { total: number; entries: AuditEntry[] } {
+    const since = parseTime("since", filter.since);
+    const until = parseTime("until", filter.until);
+
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, "utf8");
+    } catch {
+      return { total: 0, entries: [] }; // Nothing recorded yet
+    }
+
+    const matches: AuditEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // A torn write from a crash — skip it
+      }
+      const time = Date.parse(entry.timestamp);
+      if (since !== undefined && time < since) continue;
+      if (until !== undefined && time > until) continue;
+      if (filter.tool && entry.tool !== filter.tool && entry.action !== filter.tool) continue;
+      if (filter.projectId && entry.targets?.project !== filter.projectId) continue;
+      if (filter.outcome && entry.outcome !== filter.outcome) continue;
+      if (filter.tokens && !(entry.token && filter.tokens.includes(entry.token))) continue;
+      matches.push(entry);
+    }
+    matches.reverse();
+    return { total: matches.length, entries: matches.slice(0, filter.limit ?? 50) };
+  }
+}
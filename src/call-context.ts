@@ -0,0 +1,18 @@
+/**
+ * Call Context
+ * Each MCP tool call runs inside its own async context so that code deep in
+ * the client (retries, policy checks) knows which tool it is serving.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface CallContext {
+  /** Name of the MCP tool being served */
+  tool: string;
+  /** Railway API requests retried on this call's behalf */
+  retries: number;
+  /** HTTP client key name making the call (absent over stdio) */
+  client?: string;
+}
+
+export const callContext = new AsyncLocalStorage<CallContext>();
@@ -0,0 +1,119 @@
+/**
+ * Config File
+ * Optional JSON config (~/.config/railway-mcp/config.json, or --config):
+ * named workspace tokens — inline, from a file, or printed by a command —
+ * default project/environment, access policy and API endpoints. Validated
+ * at startup; env vars still work and take precedence.
+ */
+
+import { execSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import { distinctLabels, normalizeLabel } from "./labels.js";
+import { policySchema } from "./policy.js";
+import type { TokenConfig } from "./railway-client.js";
+import { describeZodError } from "./zod-errors.js";
+
+export const DEFAULT_CONFIG_FILE = join(homedir(), ".config", "railway-mcp", "config.json");
+
+/** How long a tokenCommand may run */
+const COMMAND_TIMEOUT_MS = 30_000;
+
+const workspaceSchema = z
+  .object({
+    token: z.string().min(1).optional(),
+    /** Read the token from this file (trimmed) */
+    tokenFile: z.string().min(1).optional(),
+    /** Run this through the shell and use what it prints, e.g. `op read op://vault/railway/token` */
+    tokenCommand: z.string().min(1).optional(),
+    /** account, team or project (detected on first use when omitted) */
+    type: z.enum(["account", "team", "project"]).optional(),
+  })
+  .strict()
+  .refine((w) => [w.token, w.tokenFile, w.tokenCommand].filter(Boolean).length === 1, {
+    message: "set exactly one of token, tokenFile or tokenCommand",
+  });
+
+export const configSchema = z
+  .object({
+    /** Workspace tokens keyed by label (e.g. "prod", "personal") */
+    workspaces: z.record(workspaceSchema).superRefine(distinctLabels).optional(),
+    /** Filled in when a tool needs a project or environment and none is given */
+    defaults: z
+      .object({
+        project: z.string().min(1).optional(),
+        environment: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    policy: policySchema.optional(),
+    endpoint: z
+      .object({
+        apiUrl: z.string().url().optional(),
+        wsUrl: z.string().url().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type Config = z.infer<typeof configSchema>;
+export type ConfigDefaults = NonNullable<Config["defaults"]>;
+
+const expandHome = (path: string) => (path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path);
+
+/**
+ * Load the config from `path` (must exist) or the default location (may be
+ * missing, giving an empty config).
+ */
+export function loadConfig(path?: string): Config {
+  const file = expandHome(path ?? DEFAULT_CONFIG_FILE);
+  if (!path && !existsSync(file)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read config file ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${file}: ${describeZodError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/** Resolve every configured workspace to its token, running commands and reading files as needed */
+export function configTokens(config: Config): TokenConfig[] {
+  return Object.entries(config.workspaces || {}).map(([key, workspace]) => {
+    const label = normalizeLabel(key);
+    let token: string;
+    if (workspace.token) {
+      token = workspace.token;
+    } else if (workspace.tokenFile) {
+      const file = expandHome(workspace.tokenFile);
+      try {
+        token = readFileSync(file, "utf8").trim();
+      } catch (e) {
+        throw new Error(`Workspace "${key}": could not read tokenFile ${file}: ${e instanceof Error ? e.message : e}`);
+      }
+    } else {
+      try {
+        token = execSync(workspace.tokenCommand!, {
+          encoding: "utf8",
+          timeout: COMMAND_TIMEOUT_MS,
+          stdio: ["ignore", "pipe", "pipe"],
+        }).trim();
+      } catch (e) {
+        const stderr = (e as { stderr?: string }).stderr?.trim();
+        throw new Error(
+          `Workspace "${key}": tokenCommand failed: ${stderr || (e instanceof Error ? e.message : e)}`
+        );
+      }
+    }
+    if (!token) throw new Error(`Workspace "${key}": token is empty`);
+    return { token, label, type: workspace.type };
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Confirmation Tokens
+ * Short-lived, single-use tokens that gate destructive tools: the first call
+ * returns a preview and a token, and only a second call carrying that token
+ * with the same arguments runs the mutation.
+ */
+
+import { randomBytes } from "node:crypto";
+
+interface PendingConfirmation {
+  action: string;
+  argsKey: string;
+  expiresAt: number;
+}
+
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number = 5 * 60 * 1000) {
+    this.ttlMs = ttlMs;
+  }
+
+  /** Issue a token that authorizes exactly this action with exactly these arguments */
+  issue(action: string, args: Record<string, unknown>) {
+    this.prune();
+    const token = randomBytes(6).toString("hex");
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { action, argsKey: argsKey(args), expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /** Validate and spend a token; throws if it is unknown, expired or for different arguments */
+  consume(token: string, action: string, args: Record<string, unknown>) {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (!pending) {
+      throw new Error(
+        `Confirmation token "${token}" is unknown or expired. Call ${action} without confirmToken to get a fresh preview.`
+      );
+    }
+    if (pending.action !== action || pending.argsKey !== argsKey(args)) {
+      throw new Error(
+        `Confirmation token "${token}" was issued for a different operation. Call ${action} without confirmToken to preview this one.`
+      );
+    }
+    this.pending.delete(token);
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
+
+/** Stable key for an argument object, ignoring key order and undefined values */
+function argsKey(args: Record<string, unknown>): string {
+  return JSON.stringify(
+    Object.keys(args)
+      .filter((k) => args[k] !== undefined)
+      .sort()
+      .map((k) => [k, args[k]])
+  );
+}
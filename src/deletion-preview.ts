@@ -0,0 +1,140 @@
+/**
+ * Deletion Previews
+ * Describe everything a destructive tool would remove, resolved through
+ * getProject, so the caller can check it before confirming.
+ */
+
+import type { MultiRailwayClient } from "./railway-client.js";
+import { summarizeProject, ProjectSummary } from "./project-summary.js";
+
+async function loadProject(railway: MultiRailwayClient, projectId: string): Promise<ProjectSummary> {
+  const result = (await railway.getProject(projectId)) as any;
+  if (!result?.project) throw new Error(`Project ${projectId} not found`);
+  return summarizeProject(result.project);
+}
+
+const envName = (project: ProjectSummary, environmentId: string) =>
+  project.environments.find((e) => e.id === environmentId)?.name ?? environmentId;
+
+const serviceName = (project: ProjectSummary, serviceId: string | null) =>
+  (serviceId && project.services.find((s) => s.id === serviceId)?.name) ?? serviceId;
+
+export async function previewProjectDeletion(railway: MultiRailwayClient, projectId: string) {
+  const project = await loadProject(railway, projectId);
+  return {
+    project: { id: project.id, name: project.name },
+    environments: project.environments,
+    services: project.services.map((s) => ({ id: s.id, name: s.name })),
+    volumes: project.volumes.map((v) => ({
+      id: v.id,
+      name: v.name,
+      attachedTo: v.instances.map((i) => ({
+        environment: envName(project, i.environmentId),
+        service: serviceName(project, i.serviceId),
+        mountPath: i.mountPath,
+      })),
+    })),
+    domains: project.services.flatMap((s) =>
+      s.domains.map((d) => ({
+        domain: d.domain,
+        kind: d.kind,
+        service: s.name,
+        environment: envName(project, d.environmentId),
+      }))
+    ),
+  };
+}
+
+export async function previewServiceDeletion(railway: MultiRailwayClient, serviceId: string) {
+  const result = (await railway.getService(serviceId)) as any;
+  if (!result?.service) throw new Error(`Service ${serviceId} not found`);
+  const project = await loadProject(railway, result.service.projectId);
+  const service = project.services.find((s) => s.id === serviceId);
+  return {
+    project: { id: project.id, name: project.name },
+    service: { id: serviceId, name: result.service.name },
+    environments: project.environments.map((e) => e.name),
+    volumes: project.volumes
+      .filter((v) => v.instances.some((i) => i.serviceId === serviceId))
+      .map((v) => ({
+        id: v.id,
+        name: v.name,
+        mountPaths: v.instances
+          .filter((i) => i.serviceId === serviceId)
+          .map((i) => `${envName(project, i.environmentId)}:${i.mountPath}`),
+      })),
+    domains: (service?.domains || []).map((d) => ({
+      domain: d.domain,
+      kind: d.kind,
+      environment: envName(project, d.environmentId),
+    })),
+  };
+}
+
+export async function previewEnvironmentDeletion(railway: MultiRailwayClient, environmentId: string) {
+  const result = (await railway.getEnvironment(environmentId)) as any;
+  if (!result?.environment) throw new Error(`Environment ${environmentId} not found`);
+  const project = await loadProject(railway, result.environment.projectId);
+  return {
+    project: { id: project.id, name: project.name },
+    environment: { id: environmentId, name: result.environment.name },
+    serviceInstances: project.services.map((s) => s.name),
+    volumeInstances: project.volumes.flatMap((v) =>
+      v.instances
+        .filter((i) => i.environmentId === environmentId)
+        .map((i) => ({ volume: v.name, service: serviceName(project, i.serviceId), mountPath: i.mountPath }))
+    ),
+    domains: project.services.flatMap((s) =>
+      s.domains
+        .filter((d) => d.environmentId === environmentId)
+        .map((d) => ({ domain: d.domain, kind: d.kind, service: s.name }))
+    ),
+  };
+}
+
+export async function previewDeploymentRemoval(railway: MultiRailwayClient, deploymentId: string) {
+  const result = (await railway.getDeployment(deploymentId)) as any;
+  if (!result?.deployment) throw new Error(`Deployment ${deploymentId} not found`);
+  const { id, status, createdAt, staticUrl, meta } = result.deployment;
+  return { deployment: { id, status, createdAt, staticUrl, meta } };
+}
+
+export async function previewVariableDeletion(
+  railway: MultiRailwayClient,
+  projectId: string,
+  environmentId: string,
+  serviceId: string,
+  name: string
+) {
+  const [project, variables] = await Promise.all([
+    loadProject(railway, projectId),
+    railway.getVariables(projectId, environmentId, serviceId) as Promise<any>,
+  ]);
+  // Only report whether the key exists — never echo the value
+  return {
+    project: { id: project.id, name: project.name },
+    environment: envName(project, environmentId),
+    service: serviceName(project, serviceId),
+    variable: name,
+    exists: Object.prototype.hasOwnProperty.call(variables?.variables || {}, name),
+  };
+}
+
+export async function previewServiceDomainDeletion(
+  railway: MultiRailwayClient,
+  environmentId: string,
+  serviceId: string
+) {
+  const result = (await railway.getService(serviceId)) as any;
+  if (!result?.service) throw new Error(`Service ${serviceId} not found`);
+  const project = await loadProject(railway, result.service.projectId);
+  const service = project.services.find((s) => s.id === serviceId);
+  return {
+    project: { id: project.id, name: project.name },
+    service: result.service.name,
+    environment: envName(project, environmentId),
+    domains: (service?.domains || [])
+      .filter((d) => d.kind === "service" && d.environmentId === environmentId)
+      .map((d) => d.domain),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Deployment Wait
+ * Polls a deployment until it reaches a terminal status, with backoff,
+ * and collects (redacted) log tails when it ends badly.
+ */
+
+import type { LogLine, MultiRailwayClient } from "./railway-client.js";
+import { redactLogs } from "./redact.js";
+
+/** Statuses a deployment never leaves on its own (SKIPPED: superseded before it built) */
+export const TERMINAL_STATUSES = ["SUCCESS", "FAILED", "CRASHED", "REMOVED", "SKIPPED"];
+export const FAILED_STATUSES = ["FAILED", "CRASHED"];
+
+export interface WaitOptions {
+  /** Give up after this long (the deployment keeps going) */
+  timeoutMs: number;
+  /** First poll interval; grows 1.5x per poll up to maxIntervalMs */
+  initialIntervalMs?: number;
+  maxIntervalMs?: number;
+  /** Lines of build and runtime logs to attach on failure */
+  logLines?: number;
+  /** Called whenever the observed status changes */
+  onStatus?: (status: string, elapsedMs: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface WaitResult {
+  deploymentId: string;
+  status: string;
+  outcome: "succeeded" | "failed" | "ended" | "timed_out" | "cancelled";
+  elapsedSeconds: number;
+  history: { status: string; at: string }[];
+  deployment: any;
+  /** Present when the deployment failed or crashed */
+  logs?: { build: LogLine[] | string; runtime: LogLine[] | string };
+}
+
+/** Deployment ID from a deploy mutation result (Railway returns either the ID or an object) */
+export function deploymentIdOf(result: any): string | undefined {
+  const value = result?.serviceInstanceDeployV2 ?? result;
+  if (typeof value === "string") return value;
+  return value?.id;
+}
+
+export async function waitForDeployment(
+  railway: MultiRailwayClient,
+  deploymentId: string,
+  options: WaitOptions
+): Promise<WaitResult> {
+  const started = Date.now();
+  const maxInterval = options.maxIntervalMs ?? 15_000;
+  let interval = options.initialIntervalMs ?? 2_000;
+  const history: WaitResult["history"] = [];
+  let deployment: any;
+  let status = "UNKNOWN";
+
+  const finish = async (outcome: WaitResult["outcome"]): Promise<WaitResult> => {
+    const result: WaitResult = {
+      deploymentId,
+      status,
+      outcome,
+      elapsedSeconds: Math.round((Date.now() - started) / 1000),
+      history,
+      deployment,
+    };
+    if (outcome === "failed") {
+      result.logs = await logTails(railway, deploymentId, options.logLines ?? 50);
+    }
+    return result;
+  };
+
+  for (;;) {
+    const result = (await railway.getDeployment(deploymentId)) as any;
+    deployment = result?.deployment;
+    if (!deployment) throw new Error(`Deployment ${deploymentId} not found`);
+
+    if (deployment.status !== status) {
+      status = deployment.status;
+      history.push({ status, at: new Date().toISOString() });
+      options.onStatus?.(status, Date.now() - started);
+    }
+
+    if (TERMINAL_STATUSES.includes(status)) {
+      if (status === "SUCCESS") return finish("succeeded");
+      return finish(FAILED_STATUSES.includes(status) ? "failed" : "ended");
+    }
+
+    const remaining = options.timeoutMs - (Date.now() - started);
+    if (remaining <= 0) return finish("timed_out");
+    if (!(await pause(Math.min(interval, remaining), options.signal))) {
+      return finish("cancelled");
+    }
+    interval = Math.min(maxInterval, Math.round(interval * 1.5));
+  }
+}
+
+/** Last lines of build and runtime logs; a failed fetch is reported in place of the lines */
+export async function logTails(railway: MultiRailwayClient, deploymentId: string, lines: number) {
+  const describe = (e: unknown) => `Could not fetch logs: ${e instanceof Error ? e.message : String(e)}`;
+  const [build, runtime] = await Promise.all([
+    railway
+      .getBuildLogs(deploymentId)
+      .then((r: any) => redactLogs(((r?.buildLogs as LogLine[]) || []).slice(-lines)))
+      .catch(describe),
+    railway
+      .getDeploymentLogs(deploymentId, lines)
+      .then((r: any) => redactLogs(((r?.deploymentLogs as LogLine[]) || []).slice(-lines)))
+      .catch(describe),
+  ]);
+  return { build, runtime };
+}
+
+/** Resolves true after `ms`, or false as soon as `signal` aborts */
+function pause(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
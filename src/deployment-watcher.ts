@@ -0,0 +1,64 @@
+/**
+ * Deployment Watcher
+ * Polls deployments that clients have subscribed to (as resources) and
+ * reports each status change, until the deployment reaches a terminal status
+ * or every subscriber is gone.
+ */
+
+import type { MultiRailwayClient } from "./railway-client.js";
+import { TERMINAL_STATUSES } from "./deployment-wait.js";
+
+export class DeploymentWatcher {
+  /** Deployment ID → last seen status (undefined until the first poll) */
+  private watched = new Map<string, string | undefined>();
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+
+  constructor(
+    private railway: MultiRailwayClient,
+    private onChange: (deploymentId: string, status: string) => void,
+    private intervalMs = 10_000
+  ) {}
+
+  watch(deploymentId: string) {
+    if (!this.watched.has(deploymentId)) this.watched.set(deploymentId, undefined);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      // Don't keep the process alive just to poll
+      this.timer.unref();
+    }
+  }
+
+  unwatch(deploymentId: string) {
+    this.watched.delete(deploymentId);
+    if (this.watched.size === 0) this.stop();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async poll() {
+    // A slow API shouldn't stack up overlapping polls
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [id, previous] of [...this.watched]) {
+        let status: string | undefined;
+        try {
+          const result = (await this.railway.getDeployment(id)) as any;
+          status = result?.deployment?.status;
+        } catch {
+          continue; // Transient failure — try again next round
+        }
+        if (!status || !this.watched.has(id)) continue;
+        this.watched.set(id, status);
+        if (previous !== undefined && status !== previous) this.onChange(id, status);
+        if (TERMINAL_STATUSES.includes(status)) this.unwatch(id);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
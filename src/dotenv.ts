@@ -0,0 +1,109 @@
+/**
+ * Dotenv
+ * Parsing and rendering of variables as dotenv, JSON or shell `export` lines.
+ * Railway references like ${{Postgres.DATABASE_URL}} are kept verbatim —
+ * nothing is interpolated.
+ */
+
+export type VariableFormat = "dotenv" | "json" | "shell";
+
+const KEY = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+/** Names a shell accepts after `export`; `.` and `-` are valid in dotenv only */
+const SHELL_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parse dotenv text. Supports comments, blank lines, an optional `export`
+ * prefix, unquoted values (with trailing ` # comments`), single-quoted
+ * literals and double-quoted values with escapes; both quote styles may
+ * span multiple lines.
+ */
+export function parseDotenv(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    // Only the start is trimmed: trailing whitespace may be part of a quoted value
+    const line = lines[i].trimStart();
+    if (!line.trim() || line.startsWith("#")) continue;
+
+    const match = /^(?:export\s+)?([^=\s]+)\s*=\s?(.*)$/.exec(line);
+    if (!match) throw new Error(`Line ${lineNo}: expected KEY=value`);
+    const [, key, rest] = match;
+    if (!KEY.test(key)) throw new Error(`Line ${lineNo}: invalid variable name "${key}"`);
+
+    let raw = rest.trimStart();
+    const quote = raw[0];
+    if (quote === '"' || quote === "'") {
+      // Gather lines until the closing quote (which may be on a later line)
+      raw = raw.slice(1);
+      let value = "";
+      for (;;) {
+        const end = closingQuote(raw, quote);
+        if (end >= 0) {
+          value += raw.slice(0, end);
+          const trailing = raw.slice(end + 1).trim();
+          if (trailing && !trailing.startsWith("#")) {
+            throw new Error(`Line ${i + 1}: unexpected text after closing quote`);
+          }
+          break;
+        }
+        value += raw + "\n";
+        if (++i >= lines.length) throw new Error(`Line ${lineNo}: unterminated ${quote} quote`);
+        raw = lines[i];
+      }
+      result[key] = quote === '"' ? unescape(value) : value;
+    } else {
+      result[key] = raw.replace(/\s+#.*$/, "").trim();
+    }
+  }
+  return result;
+}
+
+/** Index of the first unescaped `quote`, or -1 */
+function closingQuote(text: string, quote: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) return i;
+  }
+  return -1;
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\([nrt"\\$])/g, (_, c) =>
+    c === "n" ? "\n" : c === "r" ? "\r" : c === "t" ? "\t" : c
+  );
+}
+
+export function renderVariables(variables: Record<string, string>, format: VariableFormat): string {
+  const keys = Object.keys(variables).sort();
+  switch (format) {
+    case "json":
+      return JSON.stringify(Object.fromEntries(keys.map((k) => [k, variables[k]])), null, 2);
+    case "shell": {
+      const invalid = keys.filter((k) => !SHELL_KEY.test(k));
+      if (invalid.length > 0) {
+        throw new Error(`Not valid shell variable names: ${invalid.join(", ")} (use format "dotenv" or "json")`);
+      }
+      return keys.map((k) => `export ${k}=${shellQuote(variables[k])}`).join("\n");
+    }
+    case "dotenv":
+      return keys.map((k) => `${k}=${dotenvQuote(variables[k])}`).join("\n");
+  }
+}
+
+function dotenvQuote(value: string): string {
+  if (/^[A-Za-z0-9_./:@%+,-]*$/.test(value)) return value;
+  return `"${value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")}"`;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
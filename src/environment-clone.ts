@@ -0,0 +1,126 @@
+/**
+ * Environment Clone
+ * Creates a new environment and copies shared and per-service variables,
+ * Railway-provided service domains and volume mounts from an existing one.
+ * Every resource is attempted independently so partial failures are visible.
+ */
+
+import type { MultiRailwayClient } from "./railway-client.js";
+import { summarizeProject } from "./project-summary.js";
+import { keyMatcher } from "./variable-diff.js";
+
+/** Variables Railway injects itself; they are never copied */
+const isSystemVariable = keyMatcher(["RAILWAY_*"]);
+
+export interface CloneOptions {
+  sourceEnvironmentId: string;
+  name: string;
+  /**
+   * Values to set in the new environment, keyed by "shared" or by service
+   * name/ID, e.g. { shared: { NODE_ENV: "staging" }, api: { LOG_LEVEL: "debug" } }
+   */
+  overrides?: Record<string, Record<string, string>>;
+  copyDomains?: boolean;
+  copyVolumes?: boolean;
+}
+
+export interface CloneStep {
+  resource: string;
+  status: "ok" | "failed" | "skipped";
+  detail?: string;
+}
+
+export async function cloneEnvironment(railway: MultiRailwayClient, options: CloneOptions) {
+  const { sourceEnvironmentId, name, overrides = {} } = options;
+
+  const source = (await railway.getEnvironment(sourceEnvironmentId)) as any;
+  if (!source?.environment) throw new Error(`Environment ${sourceEnvironmentId} not found`);
+  const projectId: string = source.environment.projectId;
+  const projectResult = (await railway.getProject(projectId)) as any;
+  if (!projectResult?.project) throw new Error(`Project ${projectId} not found`);
+  const project = summarizeProject(projectResult.project);
+
+  const unknownScopes = Object.keys(overrides).filter(
+    (scope) => scope !== "shared" && !project.services.some((s) => s.id === scope || s.name === scope)
+  );
+  if (unknownScopes.length > 0) {
+    throw new Error(`Overrides name unknown services: ${unknownScopes.join(", ")}`);
+  }
+
+  const created = (await railway.createEnvironment(projectId, name)) as any;
+  const environmentId: string | undefined = created?.environmentCreate?.id;
+  if (!environmentId) throw new Error("Railway did not return the new environment's ID");
+
+  const steps: CloneStep[] = [];
+  const attempt = async (resource: string, fn: () => Promise<string | undefined>) => {
+    try {
+      steps.push({ resource, status: "ok", detail: await fn() });
+    } catch (e) {
+      steps.push({ resource, status: "failed", detail: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const copyVariables = async (serviceId: string | undefined, scopeOverrides: Record<string, string>) => {
+    // Unrendered, so ${{ref}} values resolve against the new environment
+    const result = (await railway.getVariables(projectId, sourceEnvironmentId, serviceId, true)) as any;
+    const variables: Record<string, string> = {};
+    for (const [key, value] of Object.entries<string>(result?.variables || {})) {
+      if (!isSystemVariable(key)) variables[key] = value;
+    }
+    Object.assign(variables, scopeOverrides);
+    const count = Object.keys(variables).length;
+    if (count === 0) return "nothing to copy";
+    await railway.upsertVariables(projectId, environmentId, serviceId, variables);
+    return `${count} variable(s)`;
+  };
+
+  await attempt("variables: shared", () => copyVariables(undefined, overrides.shared || {}));
+
+  for (const service of project.services) {
+    await attempt(`variables: ${service.name}`, () =>
+      copyVariables(service.id, { ...overrides[service.name], ...overrides[service.id] })
+    );
+
+    const domains = service.domains.filter((d) => d.environmentId === sourceEnvironmentId);
+    for (const domain of domains) {
+      const resource = `domain: ${service.name} (${domain.domain})`;
+      if (options.copyDomains === false) {
+        steps.push({ resource, status: "skipped", detail: "copyDomains is false" });
+      } else if (domain.kind === "custom") {
+        // A custom domain can only point at one environment
+        steps.push({ resource, status: "skipped", detail: "custom domains can't be attached twice" });
+      } else {
+        await attempt(resource, async () => {
+          const result = (await railway.createServiceDomain(service.id, environmentId)) as any;
+          return result?.serviceDomainCreate?.domain;
+        });
+      }
+    }
+  }
+
+  for (const volume of project.volumes) {
+    for (const instance of volume.instances.filter((i) => i.environmentId === sourceEnvironmentId)) {
+      const serviceName = project.services.find((s) => s.id === instance.serviceId)?.name;
+      const resource = `volume: ${serviceName ?? "unattached"} ${instance.mountPath}`;
+      if (options.copyVolumes === false) {
+        steps.push({ resource, status: "skipped", detail: "copyVolumes is false" });
+      } else if (!instance.serviceId) {
+        steps.push({ resource, status: "skipped", detail: "volume is not attached to a service" });
+      } else {
+        const serviceId = instance.serviceId;
+        await attempt(resource, async () => {
+          const result = (await railway.createVolume(projectId, environmentId, serviceId, instance.mountPath)) as any;
+          return `new volume ${result?.volumeCreate?.name ?? result?.volumeCreate?.id} (data is not copied)`;
+        });
+      }
+    }
+  }
+
+  return {
+    project: { id: project.id, name: project.name },
+    source: { id: sourceEnvironmentId, name: source.environment.name },
+    environment: { id: environmentId, name },
+    succeeded: steps.every((s) => s.status !== "failed"),
+    steps,
+  };
+}
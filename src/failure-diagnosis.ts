@@ -0,0 +1,213 @@
+/**
+ * Failure Diagnosis
+ * Gathers a deployment's status, build and runtime logs and its last
+ * successful predecessor, then classifies common failure signatures and
+ * diffs deployment `meta` so the cause can be read from one compact report.
+ */
+
+import { redactArgs } from "./audit-log.js";
+import type { LogLine, MultiRailwayClient } from "./railway-client.js";
+import { redactText } from "./redact.js";
+
+export interface FailureSignature {
+  id: string;
+  title: string;
+  /** What usually fixes it */
+  hint: string;
+  /** Any one matching counts; separate patterns let some be case-sensitive */
+  patterns: RegExp[];
+}
+
+/** Checked in order; every signature that matches is reported */
+export const FAILURE_SIGNATURES: FailureSignature[] = [
+  {
+    id: "missing-env-var",
+    title: "Missing environment variable",
+    hint: "Set the variable with set_variables (or fix the ${{ref}} it comes from), then redeploy.",
+    patterns: [
+      /(environment variable|env var)\S*\s.*\b(not set|missing|undefined|required|not defined)|missing required (env|environment)/i,
+      // Variable names are upper case; matched case-insensitively, any "word is required" would count
+      /KeyError: '[A-Z][A-Z0-9_]+'|process\.env\.[A-Z][A-Z0-9_]* is (undefined|not set)|\b[A-Z][A-Z0-9_]{2,} (is not set|is required|must be set)/,
+    ],
+  },
+  {
+    id: "port-binding",
+    title: "Port binding or health check",
+    hint: "Listen on 0.0.0.0:$PORT (Railway sets PORT) and make sure the health check path answers 200 within the timeout.",
+    patterns: [
+      /healthcheck (failed|timed out)|health ?check.*(fail|timed? ?out)|EADDRINUSE|failed to bind|address already in use|Application failed to respond|no open ports|listen EACCES/i,
+    ],
+  },
+  {
+    id: "oom",
+    title: "Out of memory",
+    hint: "Reduce memory use (e.g. --max-old-space-size for Node) or raise the service's memory limit.",
+    patterns: [/out of memory|OOMKilled|heap out of memory|exit code:? 137|MemoryError|Cannot allocate memory|^Killed\s*$/im],
+  },
+  {
+    id: "dependency-resolution",
+    title: "Dependency resolution",
+    hint: "Fix the version conflict or regenerate and commit the lockfile; a registry outage can also cause this.",
+    patterns: [
+      /ERESOLVE|Could not resolve dependenc|No matching version found|ERR_PNPM_|Couldn't find (any versions|package)|Could not find a version that satisfies|ResolutionImpossible|cannot find module providing package|unknown revision|failed to select a version|lockfile (is )?(out of date|needs to be updated)|npm ci can only install|version solving failed/i,
+    ],
+  },
+  {
+    id: "nixpacks",
+    title: "Nixpacks build plan",
+    hint: "Nixpacks couldn't work out how to build the app: add a start command, a nixpacks.toml, or switch to a Dockerfile.",
+    patterns: [/Nixpacks was unable to generate a build plan|unable to generate a build plan|nixpacks.*error|error: builder for .* failed/i],
+  },
+  {
+    id: "dockerfile",
+    title: "Dockerfile build",
+    hint: "Check the failing Dockerfile step: missing files in the build context, a failing RUN command or a bad base image.",
+    patterns: [
+      /failed to solve|dockerfile parse error|COPY failed|failed to compute cache key|executor failed running|did not complete successfully: exit code|pull access denied|manifest unknown/i,
+    ],
+  },
+];
+
+const ERROR_LINE = /\b(error|fatal|exception|panic|traceback|unhandled|failed)\b|^\s*at .+:\d+:\d+\)?$/i;
+
+/** Railway prints this each time it (re)starts the container */
+const CONTAINER_START = /Starting Container/i;
+const CRASH_LOOP_STARTS = 3;
+
+export interface SignatureMatch {
+  id: string;
+  title: string;
+  hint: string;
+  phase: "build" | "runtime";
+  occurrences: number;
+  firstEvidence: string;
+}
+
+export interface DiagnosisOptions {
+  /** Runtime log lines to scan */
+  logLines?: number;
+  /** First error lines to include per log */
+  errorLines?: number;
+}
+
+export async function diagnoseDeployment(
+  railway: MultiRailwayClient,
+  deploymentId: string,
+  options: DiagnosisOptions = {}
+) {
+  const errorLines = options.errorLines ?? 10;
+  const result = (await railway.getDeployment(deploymentId)) as any;
+  const deployment = result?.deployment;
+  if (!deployment) throw new Error(`Deployment ${deploymentId} not found`);
+
+  const fetchLogs = (fn: () => Promise<any>, field: string) =>
+    fn()
+      .then((r) => ({ lines: (r?.[field] as LogLine[]) || [], error: undefined as string | undefined }))
+      .catch((e) => ({ lines: [] as LogLine[], error: e instanceof Error ? e.message : String(e) }));
+  const [build, runtime] = await Promise.all([
+    fetchLogs(() => railway.getBuildLogs(deploymentId), "buildLogs"),
+    fetchLogs(() => railway.getDeploymentLogs(deploymentId, options.logLines ?? 500), "deploymentLogs"),
+  ]);
+
+  const matches: SignatureMatch[] = [];
+  for (const [phase, logs] of [["build", build.lines], ["runtime", runtime.lines]] as const) {
+    for (const signature of FAILURE_SIGNATURES) {
+      const hits = logs.filter((line) => signature.patterns.some((p) => p.test(line.message)));
+      if (hits.length > 0) {
+        matches.push({
+          id: signature.id,
+          title: signature.title,
+          hint: signature.hint,
+          phase,
+          occurrences: hits.length,
+          firstEvidence: redactText(hits[0].message),
+        });
+      }
+    }
+  }
+
+  const starts = runtime.lines.filter((line) => CONTAINER_START.test(line.message)).length;
+  if (deployment.status === "CRASHED" || starts >= CRASH_LOOP_STARTS) {
+    matches.push({
+      id: "crash-loop",
+      title: "Crash loop",
+      hint: "The process exits shortly after starting; the first runtime error below is usually the cause.",
+      phase: "runtime",
+      occurrences: starts,
+      firstEvidence:
+        starts > 0 ? `container started ${starts} time(s) in the log window` : `deployment status is ${deployment.status}`,
+    });
+  }
+
+  const firstErrors = (lines: LogLine[]) =>
+    lines
+      .filter((line) => line.severity?.toLowerCase() === "error" || ERROR_LINE.test(line.message))
+      .slice(0, errorLines)
+      .map((line) => ({ timestamp: line.timestamp, message: redactText(line.message) }));
+
+  const lastSuccessful = await findLastSuccessful(railway, deployment);
+
+  return {
+    deployment: {
+      id: deployment.id,
+      status: deployment.status,
+      createdAt: deployment.createdAt,
+      serviceId: deployment.serviceId,
+      environmentId: deployment.environmentId,
+    },
+    // No runtime logs means the container never started
+    failedDuring: runtime.lines.length > 0 ? "runtime" : build.lines.length > 0 ? "build" : "unknown",
+    likelyCause: matches[0] ? `${matches[0].title}: ${matches[0].hint}` : "No known failure signature matched; read firstErrors.",
+    signatures: matches,
+    firstErrors: {
+      build: build.error ? `Could not fetch build logs: ${build.error}` : firstErrors(build.lines),
+      runtime: runtime.error ? `Could not fetch runtime logs: ${runtime.error}` : firstErrors(runtime.lines),
+    },
+    logLinesScanned: { build: build.lines.length, runtime: runtime.lines.length },
+    lastSuccessful: lastSuccessful
+      ? {
+          id: lastSuccessful.id,
+          createdAt: lastSuccessful.createdAt,
+          metaChanges: diffMeta(deployment.meta, lastSuccessful.meta),
+        }
+      : null,
+  };
+}
+
+/** The newest SUCCESS deployment of the same service/environment created before this one */
+export async function findLastSuccessful(railway: MultiRailwayClient, deployment: any, pageSize = 20) {
+  if (!deployment.projectId || !deployment.serviceId || !deployment.environmentId) return undefined;
+  const page = await railway.listDeployments(deployment.projectId, deployment.serviceId, deployment.environmentId, {
+    first: pageSize,
+  });
+  return (page.nodes as any[]).find(
+    (d) => d.id !== deployment.id && d.status === "SUCCESS" && d.createdAt < deployment.createdAt
+  );
+}
+
+/** Keys of `meta` (flattened to dot paths) whose values differ, with secret-looking values masked */
+export function diffMeta(current: unknown, previous: unknown) {
+  const a = flatten(current);
+  const b = flatten(previous);
+  const changes: { key: string; current: unknown; lastSuccessful: unknown }[] = [];
+  for (const key of [...new Set([...Object.keys(a), ...Object.keys(b)])].sort()) {
+    // A missing key and null mean the same thing here
+    const current = a[key] ?? null;
+    const lastSuccessful = b[key] ?? null;
+    if (JSON.stringify(current) !== JSON.stringify(lastSuccessful)) {
+      const name = key.slice(key.lastIndexOf(".") + 1);
+      changes.push({ key, current: redactArgs(current, name), lastSuccessful: redactArgs(lastSuccessful, name) });
+    }
+  }
+  return changes;
+}
+
+function flatten(value: unknown, prefix = "", out: Record<string, unknown> = {}) {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, out);
+  } else if (prefix) {
+    // Long values (e.g. whole config files) are summarized rather than repeated
+    out[prefix] = typeof value === "string" && value.length > 200 ? `${value.slice(0, 200)}… (${value.length} chars)` : value;
+  }
+  return out;
+}
@@ -0,0 +1,89 @@
+/**
+ * File Access
+ * Tool arguments that name a file on the server's machine (specPath and the
+ * like) are confined to one directory, RAILWAY_MCP_FILES_DIR. Without it,
+ * such arguments are refused and content has to be passed inline. Paths are
+ * resolved against that directory and checked after following symlinks.
+ */
+
+import { existsSync, readFileSync, realpathSync, writeFileSync } from "node:fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+export class FileAccess {
+  private root?: string;
+
+  /** `root` is the directory files may be read from and written to (none: no file access) */
+  constructor(root?: string) {
+    if (!root) return;
+    try {
+      this.root = realpathSync(resolve(root));
+    } catch (e) {
+      throw new Error(`RAILWAY_MCP_FILES_DIR ${root}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.root !== undefined;
+  }
+
+  /** Read a UTF-8 file inside the allowed directory */
+  read(path: string): string {
+    const root = this.requireRoot(path);
+    let real: string;
+    try {
+      real = realpathSync(resolve(root, path));
+    } catch (e) {
+      throw new Error(`Could not read ${path}: ${e instanceof Error ? e.message : e}`);
+    }
+    this.checkInside(path, real);
+    try {
+      return readFileSync(real, "utf8");
+    } catch (e) {
+      throw new Error(`Could not read ${path}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  /**
+   * Check that `path` may be written and return where it will land, so a
+   * caller can fail before doing the work that produces the content
+   */
+  writeTarget(path: string): string {
+    const root = this.requireRoot(path);
+    const full = resolve(root, path);
+    let target: string;
+    try {
+      target = join(realpathSync(dirname(full)), basename(full));
+    } catch (e) {
+      throw new Error(`Could not write ${path}: ${e instanceof Error ? e.message : e}`);
+    }
+    this.checkInside(path, target);
+    // An existing symlink would be written through, so its target must be inside too
+    if (existsSync(target)) this.checkInside(path, realpathSync(target));
+    return target;
+  }
+
+  /** Write a file inside the allowed directory (the parent directory must exist) and return its path */
+  write(path: string, content: string, mode = 0o600): string {
+    const target = this.writeTarget(path);
+    try {
+      writeFileSync(target, content, { mode });
+    } catch (e) {
+      throw new Error(`Could not write ${path}: ${e instanceof Error ? e.message : e}`);
+    }
+    return target;
+  }
+
+  private requireRoot(path: string): string {
+    if (!this.root) {
+      throw new Error(`File paths are turned off (set RAILWAY_MCP_FILES_DIR to allow them); cannot use ${path}`);
+    }
+    return this.root;
+  }
+
+  private checkInside(path: string, real: string) {
+    const rel = relative(this.root!, real);
+    if (rel.split(sep)[0] === ".." || isAbsolute(rel)) {
+      throw new Error(`${path} is outside RAILWAY_MCP_FILES_DIR (${this.root})`);
+    }
+  }
+}
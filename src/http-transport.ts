@@ -0,0 +1,272 @@
+/**
+ * HTTP Transport
+ * Serves MCP over Streamable HTTP (/mcp), with the older HTTP+SSE transport
+ * (/sse and /messages) as a fallback, so one shared instance can hold the
+ * team's tokens. Clients authenticate with a bearer token or X-API-Key header;
+ * each key may be limited to some workspace token labels. /health needs no key.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { describeZodError } from "./zod-errors.js";
+
+const clientSchema = z
+  .object({
+    /** Shown in logs and recorded in the audit log */
+    name: z.string().min(1),
+    key: z.string().min(16, "use at least 16 characters"),
+    /** Workspace token labels this client may use (default all) */
+    workspaces: z.array(z.string()).min(1).optional(),
+  })
+  .strict();
+
+export const httpClientsSchema = z
+  .object({ clients: z.array(clientSchema).min(1) })
+  .strict();
+
+export type HttpClient = z.infer<typeof clientSchema>;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  clients: HttpClient[];
+  /** Build the MCP server for a new session of this client */
+  createServer: (client: HttpClient) => McpServer;
+  /** Extra fields for /health */
+  health?: () => Record<string, unknown>;
+}
+
+/** Sessions with no requests or open streams for this long are closed */
+const SESSION_IDLE_MS = 60 * 60_000;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Client keys from RAILWAY_MCP_HTTP_CLIENTS_FILE (JSON matching
+ * httpClientsSchema) plus RAILWAY_MCP_HTTP_API_KEY, a single key that may use
+ * every workspace. Workspace labels must name configured tokens.
+ */
+export function httpClientsFromEnv(env: NodeJS.ProcessEnv, labels: string[]): HttpClient[] {
+  const clients: HttpClient[] = [];
+
+  const file = env.RAILWAY_MCP_HTTP_CLIENTS_FILE;
+  if (file) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(file, "utf8"));
+    } catch (e) {
+      throw new Error(`Could not read HTTP clients file ${file}: ${e instanceof Error ? e.message : e}`);
+    }
+    const parsed = httpClientsSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid HTTP clients file ${file}: ${describeZodError(parsed.error)}`);
+    }
+    clients.push(...parsed.data.clients);
+  }
+  if (env.RAILWAY_MCP_HTTP_API_KEY) {
+    const parsed = clientSchema.safeParse({ name: "default", key: env.RAILWAY_MCP_HTTP_API_KEY });
+    if (!parsed.success) throw new Error(`Invalid RAILWAY_MCP_HTTP_API_KEY: ${describeZodError(parsed.error)}`);
+    clients.push(parsed.data);
+  }
+
+  if (clients.length === 0) {
+    throw new Error(
+      "The HTTP transport needs client keys: set RAILWAY_MCP_HTTP_API_KEY or RAILWAY_MCP_HTTP_CLIENTS_FILE"
+    );
+  }
+  const known = new Set(labels.map((l) => l.toLowerCase()));
+  for (const client of clients) {
+    const unknown = client.workspaces?.filter((w) => !known.has(w.toLowerCase())) ?? [];
+    if (unknown.length > 0) {
+      throw new Error(
+        `HTTP client "${client.name}" lists unknown workspace token label(s) ${unknown.join(", ")} (configured: ${labels.join(", ")})`
+      );
+    }
+  }
+  const keys = new Set<string>();
+  for (const client of clients) {
+    if (keys.has(client.key)) throw new Error(`HTTP client "${client.name}" reuses another client's key`);
+    keys.add(client.key);
+  }
+  return clients;
+}
+
+interface Session {
+  client: HttpClient;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastSeen: number;
+  /** Responses still open on it (e.g. an SSE stream); the sweep leaves it alone until they close */
+  open: number;
+}
+
+const digest = (key: string) => createHash("sha256").update(key).digest();
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+/** JSON-RPC error response for the MCP endpoints */
+function rpcError(res: ServerResponse, status: number, code: number, message: string) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+export function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const sessions = new Map<string, Session>();
+  const keys = options.clients.map((client) => ({ client, digest: digest(client.key) }));
+
+  const authenticate = (req: IncomingMessage): HttpClient | undefined => {
+    const auth = req.headers.authorization;
+    const apiKey = req.headers["x-api-key"];
+    const presented = auth?.toLowerCase().startsWith("bearer ")
+      ? auth.slice(7).trim()
+      : typeof apiKey === "string"
+        ? apiKey
+        : undefined;
+    if (!presented) return undefined;
+    const d = digest(presented);
+    return keys.find((k) => timingSafeEqual(k.digest, d))?.client;
+  };
+
+  /** Count `res` as open on the session until it closes, which also counts as activity */
+  const track = (session: Session, res: ServerResponse) => {
+    session.open++;
+    session.lastSeen = Date.now();
+    res.on("close", () => {
+      session.open--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  /** The caller's session, or an error response when it is unknown or someone else's */
+  const sessionFor = (id: string, client: HttpClient, res: ServerResponse): Session | undefined => {
+    const session = sessions.get(id);
+    if (!session || session.client !== client) {
+      rpcError(res, 404, -32001, "Session not found");
+      return undefined;
+    }
+    track(session, res);
+    return session;
+  };
+
+  const streamable = async (req: IncomingMessage, res: ServerResponse, client: HttpClient, body: unknown) => {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessionFor(sessionId, client, res);
+      if (!session) return;
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        return rpcError(res, 400, -32000, "Session belongs to the SSE transport");
+      }
+      return session.transport.handleRequest(req, res, body);
+    }
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      return rpcError(res, 400, -32000, "Bad Request: no valid session ID");
+    }
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { client, transport, lastSeen: Date.now(), open: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    const server = options.createServer(client);
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (e) {
+      await server.close().catch(() => {});
+      throw e;
+    }
+    // A rejected initialize leaves no session to come back to
+    if (!transport.sessionId) await server.close().catch(() => {});
+  };
+
+  const openSse = async (res: ServerResponse, client: HttpClient) => {
+    const transport = new SSEServerTransport("/messages", res);
+    const session: Session = { client, transport, lastSeen: Date.now(), open: 0 };
+    sessions.set(transport.sessionId, session);
+    // The session lives as long as its stream
+    track(session, res);
+    res.on("close", () => sessions.delete(transport.sessionId));
+    const server = options.createServer(client);
+    try {
+      await server.connect(transport);
+    } catch (e) {
+      sessions.delete(transport.sessionId);
+      await server.close().catch(() => {});
+      throw e;
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname === "/health") {
+      return sendJson(res, 200, { status: "ok", sessions: sessions.size, ...options.health?.() });
+    }
+
+    const client = authenticate(req);
+    if (!client) {
+      return sendJson(res, 401, { error: "Missing or unknown API key" }, { "WWW-Authenticate": 'Bearer realm="railway-mcp"' });
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJson(req);
+      } catch (e) {
+        return rpcError(res, 400, -32700, `Parse error: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+
+    if (url.pathname === "/mcp") return streamable(req, res, client, body);
+    if (url.pathname === "/sse" && req.method === "GET") return openSse(res, client);
+    if (url.pathname === "/messages" && req.method === "POST") {
+      const session = sessionFor(url.searchParams.get("sessionId") ?? "", client, res);
+      if (!session) return;
+      if (!(session.transport instanceof SSEServerTransport)) {
+        return rpcError(res, 400, -32000, "Session belongs to the Streamable HTTP transport");
+      }
+      return session.transport.handlePostMessage(req, res, body);
+    }
+    sendJson(res, 404, { error: "Not found" });
+  };
+
+  const http = createServer((req, res) => {
+    handle(req, res).catch((e) => {
+      console.error("Railway MCP: HTTP request failed:", e instanceof Error ? e.message : e);
+      if (!res.headersSent) rpcError(res, 500, -32603, "Internal server error");
+      else res.end();
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const session of sessions.values()) {
+      if (session.open === 0 && session.lastSeen < cutoff) void session.transport.close();
+    }
+  }, 60_000);
+  sweep.unref();
+  http.on("close", () => clearInterval(sweep));
+
+  return new Promise((resolve, reject) => {
+    http.once("error", reject);
+    http.listen(options.port, options.host, () => resolve(http));
+  });
+}
@@ -7,13 +7,66 @@
  * Set RAILWAY_API_TOKEN env var before running.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseArgs } from "node:util";
+import {
+  McpServer,
+  ResourceTemplate,
+  type ReadResourceTemplateCallback,
+  type ResourceMetadata,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
+  type ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MultiRailwayClient } from "./railway-client.js";
+import { LogLine, MultiRailwayClient, TokenConfig, TokenStatus } from "./railway-client.js";
+import { DEFAULT_OWNERSHIP_FILE } from "./ownership-index.js";
+import { AuditLog, DEFAULT_AUDIT_FILE } from "./audit-log.js";
+import { Config, configTokens, loadConfig } from "./config-file.js";
+import { normalizeLabel } from "./labels.js";
+import { HttpClient, httpClientsFromEnv, startHttpServer } from "./http-transport.js";
+import { RetryPolicy, retryPolicyFromEnv } from "./retry.js";
+import { callContext } from "./call-context.js";
+import { Policy, PolicyError, policyFromEnv } from "./policy.js";
+import { redactLogs, redactVariables } from "./redact.js";
+import { diffVariables } from "./variable-diff.js";
+import { parseDotenv, renderVariables } from "./dotenv.js";
+import { cloneEnvironment } from "./environment-clone.js";
+import { applyPlan, loadSpec, planProject, renderPlan } from "./project-spec.js";
+import { exportProject, importProject, loadSnapshot } from "./project-snapshot.js";
+import { FileAccess } from "./file-access.js";
+import { projectStatus, renderStatusTable } from "./project-status.js";
+import { ConfirmationStore } from "./confirmation.js";
+import {
+  previewDeploymentRemoval,
+  previewEnvironmentDeletion,
+  previewProjectDeletion,
+  previewServiceDeletion,
+  previewServiceDomainDeletion,
+  previewVariableDeletion,
+} from "./deletion-preview.js";
+import { deploymentIdOf, FAILED_STATUSES, waitForDeployment } from "./deployment-wait.js";
+import { DeploymentWatcher } from "./deployment-watcher.js";
+import { diagnoseDeployment } from "./failure-diagnosis.js";
+import { findNewDeployment, planRollback } from "./rollback.js";
+import { checkRequired, isId, NameResolver, withNameArgs } from "./name-resolver.js";
+import { SearchIndex } from "./search-index.js";
+import {
+  auditUnusedPrompt,
+  diagnoseDeploymentPrompt,
+  promoteEnvironmentPrompt,
+  rotateSecretPrompt,
+} from "./workflow-prompts.js";
 
 // ─── Bootstrap ───────────────────────────────────────────────
-// Supports multiple workspace tokens:
+// Workspace tokens come from the config file's `workspaces` and/or env vars
+// (which replace a config token with the same label):
 //   RAILWAY_API_TOKEN          — single token (backwards compat)
 //   RAILWAY_API_TOKENS         — comma-separated list of tokens
 //   RAILWAY_TOKEN_<LABEL>      — named tokens (e.g. RAILWAY_TOKEN_ALTGREEN, RAILWAY_TOKEN_PERSONAL)
@@ -24,7 +77,7 @@ function loadTokens(): { token: string; label: string }[] {
   // Check for named tokens: RAILWAY_TOKEN_*
   for (const [key, value] of Object.entries(process.env)) {
     if (key.startsWith("RAILWAY_TOKEN_") && value) {
-      const label = key.replace("RAILWAY_TOKEN_", "").toLowerCase().replace(/_/g, " ");
+      const label = normalizeLabel(key.replace("RAILWAY_TOKEN_", ""));
       tokens.push({ token: value, label });
     }
   }
@@ -43,7 +96,28 @@ function loadTokens(): { token: string; label: string }[] {
   return tokens;
 }
 
-const tokens = loadTokens();
+// --config (or RAILWAY_MCP_CONFIG) names the config file; without either the
+// default location is read if it exists
+let flags: { config?: string; transport?: string; host?: string; port?: string };
+let config: Config;
+let tokens: TokenConfig[];
+try {
+  flags = parseArgs({
+    options: {
+      config: { type: "string" },
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+  }).values;
+  config = loadConfig(flags.config ?? process.env.RAILWAY_MCP_CONFIG);
+  const fromEnv = loadTokens();
+  tokens = [...configTokens(config).filter((t) => !fromEnv.some((e) => e.label === t.label)), ...fromEnv];
+} catch (e) {
+  console.error(`ERROR: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+}
+
 if (tokens.length === 0) {
   console.error(
     "ERROR: No Railway API tokens found.\n" +
@@ -51,28 +125,147 @@ if (tokens.length === 0) {
       "  RAILWAY_API_TOKEN          — single token\n" +
       "  RAILWAY_API_TOKENS         — comma-separated tokens\n" +
       "  RAILWAY_TOKEN_<LABEL>      — named tokens (e.g. RAILWAY_TOKEN_ALTGREEN)\n" +
+      "or add `workspaces` to ~/.config/railway-mcp/config.json (or the file given with --config).\n" +
       "Get tokens at https://railway.com/account/tokens"
   );
   process.exit(1);
 }
 
 console.error(`Railway MCP: loaded ${tokens.length} workspace token(s): ${tokens.map((t) => t.label).join(", ")}`);
-const railway = new MultiRailwayClient(tokens);
+let retryPolicy: RetryPolicy;
+let policy: Policy;
+// Path arguments (specPath, snapshotPath, export path) may only name files
+// under RAILWAY_MCP_FILES_DIR. Over HTTP they would touch this machine's disk
+// for a remote client, so they (and export_project) are only offered there
+// with RAILWAY_MCP_HTTP_FILES=true.
+let files: FileAccess;
+let serveFiles: boolean;
+// stdio by default; --transport http (or RAILWAY_MCP_TRANSPORT=http) serves
+// Streamable HTTP, with --host/--port overriding RAILWAY_MCP_HTTP_HOST/PORT
+let transport: "stdio" | "http";
+let httpClients: HttpClient[] = [];
+let httpHost: string;
+let httpPort: number;
+try {
+  retryPolicy = retryPolicyFromEnv(process.env);
+  policy = new Policy(policyFromEnv(process.env, config.policy));
+
+  const chosen = flags.transport ?? process.env.RAILWAY_MCP_TRANSPORT ?? "stdio";
+  if (chosen !== "stdio" && chosen !== "http") {
+    throw new Error(`Unknown transport "${chosen}" (expected stdio or http)`);
+  }
+  transport = chosen;
+  serveFiles =
+    transport === "stdio" || ["1", "true", "yes"].includes((process.env.RAILWAY_MCP_HTTP_FILES ?? "").toLowerCase());
+  files = new FileAccess(serveFiles ? process.env.RAILWAY_MCP_FILES_DIR : undefined);
+  httpHost = flags.host ?? process.env.RAILWAY_MCP_HTTP_HOST ?? "127.0.0.1";
+  httpPort = Number(flags.port ?? process.env.RAILWAY_MCP_HTTP_PORT ?? 3000);
+  if (!Number.isInteger(httpPort) || httpPort < 0 || httpPort > 65535) {
+    throw new Error(`Invalid HTTP port "${flags.port ?? process.env.RAILWAY_MCP_HTTP_PORT}"`);
+  }
+  if (transport === "http") httpClients = httpClientsFromEnv(process.env, tokens.map((t) => t.label));
+} catch (e) {
+  console.error(`ERROR: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+}
 
-const server = new McpServer({
-  name: "railway",
-  version: "1.0.0",
+// Every mutation is appended to the audit log unless RAILWAY_MCP_AUDIT_FILE=off
+const auditFile = process.env.RAILWAY_MCP_AUDIT_FILE || DEFAULT_AUDIT_FILE;
+const audit = auditFile === "off" ? undefined : new AuditLog(auditFile);
+
+// Which token owns which project/service/etc. is cached here across restarts.
+// Each MCP server gets this client, or a view limited to an HTTP client's tokens.
+const allWorkspaces = MultiRailwayClient.fromTokens(tokens, {
+  ownershipFile: process.env.RAILWAY_MCP_OWNERSHIP_FILE || DEFAULT_OWNERSHIP_FILE,
+  audit,
+  client: {
+    retryPolicy,
+    apiUrl: process.env.RAILWAY_API_URL || config.endpoint?.apiUrl,
+    wsUrl: process.env.RAILWAY_WS_URL || config.endpoint?.wsUrl,
+    policy,
+  },
 });
 
 // ─── Helper ──────────────────────────────────────────────────
 
+/** One line for the startup log */
+function describeTokenStatus(status: TokenStatus): string {
+  if (!status.valid) return `disabled — ${status.error}`;
+  if (status.error) return `could not be checked (${status.error}); left enabled`;
+  if (status.project) return `project token for ${status.project.name} / ${status.project.environment}`;
+  const workspaces = status.workspaces.map((w) => w.name).join(", ") || "none";
+  if (status.type === "team") return `team token; workspaces: ${workspaces}`;
+  return `account token for ${status.user ?? "unknown user"}; workspaces: ${workspaces}`;
+}
+
+/**
+ * Fill in the config file's default project/environment when a tool requires
+ * one and the call names none. The default project is also where environment
+ * and service names are looked up when no serviceId/environmentId pins one.
+ */
+function withDefaults(args: Record<string, any>, required: string[]) {
+  const defaults = config.defaults;
+  if (!defaults) return args;
+  const out = { ...args };
+  if (required.includes("environmentId") && !out.environmentId && !out.environment && defaults.environment) {
+    out.environment = defaults.environment;
+  }
+  const namesNeedProject =
+    [out.environment, out.service].some((ref) => ref && !isId(ref)) && !out.serviceId && !out.environmentId;
+  if (!out.projectId && !out.project && defaults.project && (required.includes("projectId") || namesNeedProject)) {
+    out.project = defaults.project;
+  }
+  return out;
+}
+
+function retryNote() {
+  const retries = callContext.getStore()?.retries ?? 0;
+  return retries > 0 ? `Railway API requests retried ${retries} time(s)` : undefined;
+}
+
+/** Map Railway log severity onto MCP logging levels */
+function logLevel(severity?: string): "error" | "warning" | "info" | "debug" {
+  switch (severity?.toLowerCase()) {
+    case "error":
+    case "err":
+      return "error";
+    case "warn":
+    case "warning":
+      return "warning";
+    case "debug":
+      return "debug";
+    default:
+      return "info";
+  }
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type ToolHandler<Args extends z.ZodRawShape> = (
+  args: z.objectOutputType<Args, z.ZodTypeAny>,
+  extra: ToolExtra
+) => Promise<CallToolResult>;
+
+/** Plain-text result (e.g. a dotenv file), with the same retry note as ok() */
+function okText(text: string) {
+  const note = retryNote();
+  return {
+    content: [
+      { type: "text" as const, text },
+      ...(note ? [{ type: "text" as const, text: note }] : []),
+    ],
+  };
+}
+
 function ok(data: unknown) {
+  const note = retryNote();
   return {
     content: [
       {
         type: "text" as const,
         text: JSON.stringify(data, null, 2),
       },
+      ...(note ? [{ type: "text" as const, text: note }] : []),
     ],
   };
 }
@@ -80,589 +273,1743 @@ function ok(data: unknown) {
 function err(error: unknown) {
   const message =
     error instanceof Error ? error.message : String(error);
+  const note = retryNote();
   return {
     isError: true as const,
-    content: [{ type: "text" as const, text: `Error: ${message}` }],
+    content: [
+      { type: "text" as const, text: `Error: ${message}${note ? ` (${note})` : ""}` },
+    ],
   };
 }
 
+// Shared arguments for tools that page through a list. Results carry
+// pageInfo.endCursor; pass it back as `after` to fetch the next page.
+const pageArgs = {
+  first: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Page size (Railway's default when omitted)"),
+  after: z
+    .string()
+    .optional()
+    .describe("Cursor to continue from — pageInfo.endCursor of the previous page"),
+  all: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Fetch every page (first is then the per-request page size)"),
+};
+
+// Destructive tools run in two phases: a call without confirmToken returns a
+// preview plus a short-lived token, and only a call with that token (and the
+// same arguments) runs the mutation.
+const confirmArgs = {
+  confirmToken: z
+    .string()
+    .optional()
+    .describe("Token from a previous preview call; omit it to get the preview first"),
+};
+
+// Shared arguments and plumbing for tools that wait on a deployment
+const waitArgs = {
+  timeoutSeconds: z
+    .number()
+    .positive()
+    .max(3600)
+    .optional()
+    .default(600)
+    .describe("Give up waiting after this many seconds (default 600)"),
+};
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  TEAMS
+//  SERVER (one per stdio process, or per HTTP session)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-server.tool(
-  "list_teams",
-  "List all teams/organizations you belong to",
-  {},
-  async () => {
-    try {
-      return ok(await railway.listTeams());
-    } catch (e) {
-      return err(e);
+/** Tools the policy kept from being registered */
+const withheldTools = new Set<string>();
+
+/** Tools and arguments that use this machine's filesystem, only offered when serveFiles is set */
+const FILE_TOOLS = ["export_project"];
+const FILE_ARGS = ["specPath", "snapshotPath"];
+
+/**
+ * Build an MCP server whose tools, resources and prompts act through
+ * `railway` — every token over stdio, or the tokens an HTTP client key may
+ * use. `client` names that key in call contexts (and so the audit log).
+ */
+function createServer(railway: MultiRailwayClient, client?: string): McpServer {
+  const server = new McpServer(
+    {
+      name: "railway",
+      version: "1.0.0",
+    },
+    {
+      // tail_logs streams log lines as logging notifications; deployment
+      // resources can be subscribed to for status changes
+      capabilities: { logging: {}, resources: { subscribe: true } },
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  PROJECTS
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // Every tool is registered through registerTool, which applies the policy:
+  // tools it blocks outright are never registered, and without serveFiles
+  // neither are FILE_TOOLS or FILE_ARGS. Tools are annotated
+  // { readOnlyHint: true } when they only read; anything else counts as a
+  // write. Tools taking projectId/environmentId/serviceId also accept
+  // project/environment/service names, resolved before the handler runs. Each
+  // handler then runs in its own call context so retries and workspace policy
+  // checks know which tool (and HTTP client) is being served.
+  const names = new NameResolver(railway);
 
-server.tool(
-  "list_projects",
-  "List ALL Railway projects — both personal and from all teams/orgs. Returns projects grouped by personal vs each team.",
-  {},
-  async () => {
-    try {
-      return ok(await railway.listAllProjects());
-    } catch (e) {
-      return err(e);
+  function registerTool<Args extends z.ZodRawShape>(
+    name: string,
+    description: string,
+    schema: Args,
+    annotations: ToolAnnotations,
+    handler: ToolHandler<Args>
+  ) {
+    if (!policy.allowsTool(name, annotations.readOnlyHint === true)) {
+      withheldTools.add(name);
+      return;
     }
-  }
-);
-
-server.tool(
-  "list_personal_projects",
-  "List only your personal Railway projects",
-  {},
-  async () => {
-    try {
-      return ok(await railway.listPersonalProjects());
-    } catch (e) {
-      return err(e);
+    if (!serveFiles) {
+      if (FILE_TOOLS.includes(name)) return;
+      schema = Object.fromEntries(Object.entries(schema).filter(([key]) => !FILE_ARGS.includes(key))) as Args;
     }
+    const nameArgs = withNameArgs(schema);
+    server.registerTool(
+      name,
+      { description, inputSchema: nameArgs?.shape ?? schema, annotations },
+      (args: Record<string, unknown>, extra: ToolExtra) =>
+        callContext.run({ tool: name, retries: 0, client }, async () => {
+          if (nameArgs) {
+            try {
+              args = await names.resolveArgs(withDefaults(args, nameArgs.required));
+              checkRequired(args, nameArgs.required);
+            } catch (e) {
+              return err(e);
+            }
+          }
+          // Resolution filled in the IDs the original schema asks for
+          return handler(args as z.objectOutputType<Args, z.ZodTypeAny>, extra);
+        })
+    );
   }
-);
 
-server.tool(
-  "list_team_projects",
-  "List projects for a specific team/organization",
-  {
-    teamId: z.string().describe("The team ID"),
-  },
-  async ({ teamId }) => {
-    try {
-      return ok(await railway.listTeamProjects(teamId));
-    } catch (e) {
-      return err(e);
+  // ─── Session helpers ─────────────────────────────────────────
+
+  /**
+   * Report something happening during a long-running tool call: always as a
+   * logging message, and as a progress notification when the client sent a
+   * progress token.
+   */
+  function notify(
+    extra: ToolExtra,
+    progress: number,
+    message: string,
+    options: { level?: ReturnType<typeof logLevel>; logger?: string } = {}
+  ) {
+    void server
+      .sendLoggingMessage(
+        { level: options.level ?? "info", logger: options.logger ?? "railway", data: message },
+        extra.sessionId
+      )
+      .catch(() => {});
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken !== undefined) {
+      void extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, message },
+        })
+        .catch(() => {});
     }
   }
-);
 
-server.tool(
-  "get_project",
-  "Get details of a specific Railway project",
-  {
-    projectId: z.string().describe("The Railway project ID"),
-  },
-  async ({ projectId }) => {
-    try {
-      return ok(await railway.getProject(projectId));
-    } catch (e) {
-      return err(e);
+  // Confirm tokens are only valid on the server (session) that issued them
+  const confirmations = new ConfirmationStore();
+
+  async function confirmed(
+    action: string,
+    args: Record<string, unknown>,
+    confirmToken: string | undefined,
+    preview: () => Promise<unknown>,
+    run: () => Promise<unknown>,
+    previewKey: "willDestroy" | "willChange" = "willDestroy"
+  ) {
+    if (!confirmToken) {
+      const described = await preview();
+      const { token, expiresAt } = confirmations.issue(action, args);
+      return ok({
+        preview: true,
+        action,
+        arguments: args,
+        [previewKey]: described,
+        confirmToken: token,
+        expiresAt,
+        next: `Nothing has been changed yet. To proceed, call ${action} again with the same arguments and confirmToken "${token}".`,
+      });
     }
+    confirmations.consume(confirmToken, action, args);
+    return ok(await run());
   }
-);
-
-server.tool(
-  "create_project",
-  "Create a new Railway project",
-  {
-    name: z.string().describe("Name for the new project"),
-    description: z
-      .string()
-      .optional()
-      .describe("Optional project description"),
-  },
-  async ({ name, description }) => {
-    try {
-      return ok(await railway.createProject(name, description));
-    } catch (e) {
-      return err(e);
-    }
+
+  /** Wait on a deployment, reporting each status change as a notification */
+  function waitWithProgress(deploymentId: string, timeoutSeconds: number, extra: ToolExtra) {
+    let changes = 0;
+    return waitForDeployment(railway, deploymentId, {
+      timeoutMs: timeoutSeconds * 1000,
+      signal: extra.signal,
+      onStatus: (status, elapsedMs) =>
+        notify(extra, ++changes, `Deployment status: ${status} (${Math.round(elapsedMs / 1000)}s)`, {
+          level: FAILED_STATUSES.includes(status) ? "error" : "info",
+        }),
+    });
   }
-);
 
-server.tool(
-  "delete_project",
-  "Delete a Railway project (irreversible!)",
-  {
-    projectId: z.string().describe("The project ID to delete"),
-  },
-  async ({ projectId }) => {
-    try {
-      return ok(await railway.deleteProject(projectId));
-    } catch (e) {
-      return err(e);
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  TEAMS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "list_teams",
+    "List all teams/organizations you belong to (every page, across all workspace tokens)",
+    {},
+    { readOnlyHint: true },
+    async () => {
+      try {
+        return ok(await railway.listTeams());
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  SERVICES
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerTool(
+    "whoami",
+    "Show, per workspace token label, the user, visible workspaces, token type (account/team/project) and the last validation result. Tokens Railway rejected are disabled.",
+    {
+      refresh: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Check every token against Railway again (re-enables tokens that now work)"),
+    },
+    { readOnlyHint: true },
+    async ({ refresh }) => {
+      try {
+        if (refresh || railway.clients.some((c) => !c.status)) await railway.validateTokens();
+        return ok(
+          railway.clients.map((c) => ({
+            label: c.label,
+            disabled: c.disabled,
+            ...c.status,
+          }))
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
 
-server.tool(
-  "list_services",
-  "List all services in a Railway project",
-  {
-    projectId: z.string().describe("The project ID"),
-  },
-  async ({ projectId }) => {
-    try {
-      return ok(await railway.listServices(projectId));
-    } catch (e) {
-      return err(e);
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  PROJECTS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "list_projects",
+    "List ALL Railway projects — both personal and from all teams/orgs. Returns projects grouped by personal vs each team. Reads every page.",
+    {},
+    { readOnlyHint: true },
+    async () => {
+      try {
+        return ok(await railway.listAllProjects());
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "create_service",
-  "Create a new service in a project (from GitHub repo or Docker image)",
-  {
-    projectId: z.string().describe("The project ID"),
-    name: z.string().describe("Name for the new service"),
-    repo: z
-      .string()
-      .optional()
-      .describe("GitHub repo in 'owner/repo' format (e.g. 'user/my-app')"),
-    image: z
-      .string()
-      .optional()
-      .describe("Docker image (e.g. 'redis:7-alpine', 'postgres:16')"),
-  },
-  async ({ projectId, name, repo, image }) => {
-    try {
-      const source: { repo?: string; image?: string } = {};
-      if (repo) source.repo = repo;
-      if (image) source.image = image;
-      return ok(
-        await railway.createService(
-          projectId,
-          name,
-          Object.keys(source).length > 0 ? source : undefined
-        )
-      );
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "list_personal_projects",
+    "List only your personal Railway projects",
+    {},
+    { readOnlyHint: true },
+    async () => {
+      try {
+        return ok(await railway.listPersonalProjects());
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "delete_service",
-  "Delete a service from a project",
-  {
-    serviceId: z.string().describe("The service ID to delete"),
-  },
-  async ({ serviceId }) => {
-    try {
-      return ok(await railway.deleteService(serviceId));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "list_team_projects",
+    "List projects for a specific team/organization (paginated)",
+    {
+      teamId: z.string().describe("The team ID"),
+      ...pageArgs,
+    },
+    { readOnlyHint: true },
+    async ({ teamId, first, after, all }) => {
+      try {
+        return ok(await railway.listTeamProjects(teamId, { first, after, all }));
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  DEPLOYMENTS
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerTool(
+    "get_project",
+    "Get details of a specific Railway project",
+    {
+      projectId: z.string().describe("The Railway project ID"),
+    },
+    { readOnlyHint: true },
+    async ({ projectId }) => {
+      try {
+        return ok(await railway.getProject(projectId));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
 
-server.tool(
-  "list_deployments",
-  "List deployments for a service in an environment",
-  {
-    projectId: z.string().describe("The project ID"),
-    serviceId: z.string().describe("The service ID"),
-    environmentId: z.string().describe("The environment ID"),
-  },
-  async ({ projectId, serviceId, environmentId }) => {
-    try {
-      return ok(
-        await railway.listDeployments(projectId, serviceId, environmentId)
-      );
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "project_status",
+    "Status dashboard: one row per service × environment with the latest deployment status, when it was deployed, its commit, domains and volume mounts. Covers one project, or every project in every workspace when none is given.",
+    {
+      projectId: z.string().optional().describe("The project ID (omit for all projects)"),
+      format: z
+        .enum(["table", "json"])
+        .optional()
+        .default("table")
+        .describe("'table' for a markdown table, 'json' for flat rows with IDs"),
+      concurrency: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .default(4)
+        .describe("Railway API requests in flight at once (default 4)"),
+    },
+    { readOnlyHint: true },
+    async ({ projectId, format, concurrency }) => {
+      try {
+        const rows = await projectStatus(railway, { projectId, concurrency });
+        return format === "json" ? ok(rows) : okText(renderStatusTable(rows));
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "get_deployment",
-  "Get details of a specific deployment",
-  {
-    deploymentId: z.string().describe("The deployment ID"),
-  },
-  async ({ deploymentId }) => {
-    try {
-      return ok(await railway.getDeployment(deploymentId));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "create_project",
+    "Create a new Railway project",
+    {
+      name: z.string().describe("Name for the new project"),
+      description: z
+        .string()
+        .optional()
+        .describe("Optional project description"),
+      workspace: z
+        .string()
+        .optional()
+        .describe("Label of the workspace token to create it under (default: the first token)"),
+    },
+    {},
+    async ({ name, description, workspace }) => {
+      try {
+        return ok(await railway.createProject(name, description, workspace));
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
-
-server.tool(
-  "deploy_service",
-  "Trigger a new deployment for a service",
-  {
-    serviceId: z.string().describe("The service ID to deploy"),
-    environmentId: z.string().describe("The environment ID to deploy to"),
-  },
-  async ({ serviceId, environmentId }) => {
-    try {
-      return ok(await railway.deployService(serviceId, environmentId));
-    } catch (e) {
-      return err(e);
+  );
+
+  registerTool(
+    "delete_project",
+    "Delete a Railway project (irreversible!). The first call returns a preview of everything that will be destroyed and a confirmToken; call again with the token to delete.",
+    {
+      projectId: z.string().describe("The project ID to delete"),
+      ...confirmArgs,
+    },
+    {},
+    async ({ projectId, confirmToken }) => {
+      try {
+        return await confirmed(
+          "delete_project",
+          { projectId },
+          confirmToken,
+          () => previewProjectDeletion(railway, projectId),
+          () => railway.deleteProject(projectId)
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "redeploy_service",
-  "Redeploy the latest deployment of a service",
-  {
-    serviceId: z.string().describe("The service ID to redeploy"),
-    environmentId: z.string().describe("The environment ID"),
-  },
-  async ({ serviceId, environmentId }) => {
-    try {
-      return ok(await railway.redeploy(serviceId, environmentId));
-    } catch (e) {
-      return err(e);
+  const specArgs = {
+    spec: z.string().optional().describe("The project spec as JSON or YAML text"),
+    specPath: z.string().optional().describe("Path to a JSON/YAML spec file under RAILWAY_MCP_FILES_DIR on the server's machine (instead of spec)"),
+  };
+
+  registerTool(
+    "plan_project",
+    "Compare a declarative project spec (environments, services, sources, variables, domains, volumes) with live state and show the changes apply_project would make, Terraform-style. Secret values are masked. Changes nothing.",
+    specArgs,
+    { readOnlyHint: true },
+    async ({ spec, specPath }) => {
+      try {
+        const parsed = loadSpec({ spec, specPath }, files);
+        const plan = await planProject(railway, parsed);
+        return okText(renderPlan(plan));
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "restart_deployment",
-  "Restart a specific deployment",
-  {
-    deploymentId: z.string().describe("The deployment ID to restart"),
-  },
-  async ({ deploymentId }) => {
-    try {
-      return ok(await railway.restartDeployment(deploymentId));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "apply_project",
+    "Create or update a project to match a declarative spec, running only the changes plan_project shows, in dependency order. When the plan deletes anything (prune: true or domain: false), the first call returns the plan and a confirmToken; call again with the token to apply.",
+    {
+      ...specArgs,
+      ...confirmArgs,
+    },
+    {},
+    async ({ spec, specPath, confirmToken }) => {
+      try {
+        const parsed = loadSpec({ spec, specPath }, files);
+        const plan = await planProject(railway, parsed);
+        if (plan.actions.length === 0) return okText(renderPlan(plan));
+        if (!plan.actions.some((a) => a.op === "delete")) {
+          return ok(await applyPlan(railway, parsed, plan));
+        }
+        return await confirmed(
+          "apply_project",
+          { spec, specPath },
+          confirmToken,
+          async () => renderPlan(plan),
+          // Re-plan so the apply reflects anything that changed since the preview
+          async () => applyPlan(railway, parsed, await planProject(railway, parsed)),
+          "willChange"
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "remove_deployment",
-  "Remove/cancel a specific deployment",
-  {
-    deploymentId: z.string().describe("The deployment ID to remove"),
-  },
-  async ({ deploymentId }) => {
-    try {
-      return ok(await railway.removeDeployment(deploymentId));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "export_project",
+    "Snapshot a project as one JSON document: environments, services with sources, variable names, domains, volumes and the latest deployment per service/environment. Variable values are included only when a passphrase is given (and the policy allows revealing secrets), and then encrypted with it. Optionally writes the snapshot to a file under RAILWAY_MCP_FILES_DIR.",
+    {
+      projectId: z.string().describe("The project ID"),
+      passphrase: z
+        .string()
+        .optional()
+        .describe("Include variable values, encrypted (AES-256-GCM) with this passphrase (may be disabled by policy)"),
+      path: z
+        .string()
+        .optional()
+        .describe("Write the snapshot to this file under RAILWAY_MCP_FILES_DIR (mode 600) and return a summary instead"),
+    },
+    // Only reads Railway; the optional file write is gated by file access, not policy
+    { readOnlyHint: true },
+    async ({ projectId, passphrase, path }) => {
+      try {
+        if (passphrase && !policy.allowsReveal) {
+          throw new PolicyError("exporting variable values is disabled (secret reveal is off)");
+        }
+        if (path) files.writeTarget(path);
+        const snapshot = await exportProject(railway, projectId, passphrase);
+        if (!path) return ok(snapshot);
+        const written = files.write(path, JSON.stringify(snapshot, null, 2) + "\n");
+        return ok({
+          path: written,
+          project: snapshot.project.name,
+          environments: snapshot.environments.length,
+          services: snapshot.services.length,
+          variableScopes: snapshot.variables.length,
+          valuesIncluded: Boolean(snapshot.encryption),
+        });
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  ENVIRONMENTS
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerTool(
+    "import_project",
+    "Recreate a project from an export_project snapshot as a new project, optionally under a different workspace token. Restores environments, services and sources, variables (needs the export passphrase), Railway-provided domains and volume mounts (data is not copied). Returns a per-resource result.",
+    {
+      snapshot: z.string().optional().describe("The snapshot JSON text"),
+      snapshotPath: z.string().optional().describe("Path to a snapshot file under RAILWAY_MCP_FILES_DIR on the server's machine (instead of snapshot)"),
+      name: z.string().optional().describe("Name for the new project (default: the snapshot's project name)"),
+      workspace: z.string().optional().describe("Label of the workspace token to create it under (default: the first token)"),
+      passphrase: z.string().optional().describe("The passphrase the snapshot was exported with"),
+      copyDomains: z.boolean().optional().default(true).describe("Generate Railway-provided domains where the snapshot has one"),
+      copyCustomDomains: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Attach the snapshot's custom domains (only works once they are free)"),
+      copyVolumes: z.boolean().optional().default(true).describe("Create volumes at the same mount paths"),
+    },
+    {},
+    async ({ snapshot, snapshotPath, name, workspace, passphrase, copyDomains, copyCustomDomains, copyVolumes }) => {
+      try {
+        const parsed = loadSnapshot({ snapshot, snapshotPath }, files);
+        return ok(
+          await importProject(railway, parsed, { name, workspace, passphrase, copyDomains, copyCustomDomains, copyVolumes })
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
 
-server.tool(
-  "list_environments",
-  "List all environments in a project",
-  {
-    projectId: z.string().describe("The project ID"),
-  },
-  async ({ projectId }) => {
-    try {
-      return ok(await railway.listEnvironments(projectId));
-    } catch (e) {
-      return err(e);
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  SERVICES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "list_services",
+    "List services in a Railway project (paginated)",
+    {
+      projectId: z.string().describe("The project ID"),
+      ...pageArgs,
+    },
+    { readOnlyHint: true },
+    async ({ projectId, first, after, all }) => {
+      try {
+        return ok(await railway.listServices(projectId, { first, after, all }));
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "create_environment",
-  "Create a new environment in a project",
-  {
-    projectId: z.string().describe("The project ID"),
-    name: z.string().describe("Name for the new environment (e.g. 'staging')"),
-  },
-  async ({ projectId, name }) => {
-    try {
-      return ok(await railway.createEnvironment(projectId, name));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "create_service",
+    "Create a new service in a project (from GitHub repo or Docker image)",
+    {
+      projectId: z.string().describe("The project ID"),
+      name: z.string().describe("Name for the new service"),
+      repo: z
+        .string()
+        .optional()
+        .describe("GitHub repo in 'owner/repo' format (e.g. 'user/my-app')"),
+      image: z
+        .string()
+        .optional()
+        .describe("Docker image (e.g. 'redis:7-alpine', 'postgres:16')"),
+    },
+    {},
+    async ({ projectId, name, repo, image }) => {
+      try {
+        const source: { repo?: string; image?: string } = {};
+        if (repo) source.repo = repo;
+        if (image) source.image = image;
+        return ok(
+          await railway.createService(
+            projectId,
+            name,
+            Object.keys(source).length > 0 ? source : undefined
+          )
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "delete_environment",
-  "Delete an environment from a project",
-  {
-    environmentId: z.string().describe("The environment ID to delete"),
-  },
-  async ({ environmentId }) => {
-    try {
-      return ok(await railway.deleteEnvironment(environmentId));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "delete_service",
+    "Delete a service from a project. The first call returns a preview (volumes, domains) and a confirmToken; call again with the token to delete.",
+    {
+      serviceId: z.string().describe("The service ID to delete"),
+      ...confirmArgs,
+    },
+    {},
+    async ({ serviceId, confirmToken }) => {
+      try {
+        return await confirmed(
+          "delete_service",
+          { serviceId },
+          confirmToken,
+          () => previewServiceDeletion(railway, serviceId),
+          () => railway.deleteService(serviceId)
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  VARIABLES
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  DEPLOYMENTS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "list_deployments",
+    "List deployments for a service in an environment (paginated)",
+    {
+      projectId: z.string().describe("The project ID"),
+      serviceId: z.string().describe("The service ID"),
+      environmentId: z.string().describe("The environment ID"),
+      ...pageArgs,
+    },
+    { readOnlyHint: true },
+    async ({ projectId, serviceId, environmentId, first, after, all }) => {
+      try {
+        return ok(
+          await railway.listDeployments(projectId, serviceId, environmentId, {
+            first,
+            after,
+            all,
+          })
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "get_deployment",
+    "Get details of a specific deployment",
+    {
+      deploymentId: z.string().describe("The deployment ID"),
+    },
+    { readOnlyHint: true },
+    async ({ deploymentId }) => {
+      try {
+        return ok(await railway.getDeployment(deploymentId));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "diagnose_deployment",
+    "Diagnose a failed deployment in one call: status, the first error lines of build and runtime logs, classified failure signatures (missing env var, port binding/health check, OOM, dependency resolution, Nixpacks/Dockerfile errors, crash loop) and how its meta (commit, image, config) differs from the last successful deployment. Pass deploymentId, or projectId + serviceId + environmentId for the latest deployment.",
+    {
+      deploymentId: z.string().optional().describe("The deployment ID"),
+      projectId: z.string().optional().describe("The project ID (when deploymentId is omitted)"),
+      serviceId: z.string().optional().describe("The service ID (when deploymentId is omitted)"),
+      environmentId: z.string().optional().describe("The environment ID (when deploymentId is omitted)"),
+      logLines: z.number().int().positive().max(5000).optional().default(500).describe("Runtime log lines to scan (default 500)"),
+    },
+    { readOnlyHint: true },
+    async ({ deploymentId, projectId, serviceId, environmentId, logLines }) => {
+      try {
+        let id = deploymentId;
+        if (!id) {
+          if (!projectId || !serviceId || !environmentId) {
+            throw new Error("Pass deploymentId, or projectId, serviceId and environmentId");
+          }
+          const latest = await railway.listDeployments(projectId, serviceId, environmentId, { first: 1 });
+          id = latest.nodes[0]?.id;
+          if (!id) throw new Error("This service has no deployments in this environment");
+        }
+        return ok(await diagnoseDeployment(railway, id, { logLines }));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "deploy_service",
+    "Trigger a new deployment for a service. With wait: true, blocks until the deployment finishes (see wait_for_deployment).",
+    {
+      serviceId: z.string().describe("The service ID to deploy"),
+      environmentId: z.string().describe("The environment ID to deploy to"),
+      wait: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Wait for the new deployment to reach a terminal status"),
+      timeoutSeconds: waitArgs.timeoutSeconds,
+    },
+    {},
+    async ({ serviceId, environmentId, wait, timeoutSeconds }, extra) => {
+      try {
+        const result = await railway.deployService(serviceId, environmentId);
+        if (!wait) return ok(result);
+        const deploymentId = deploymentIdOf(result);
+        if (!deploymentId) {
+          throw new Error("Deployment was triggered but Railway did not return its ID, so it can't be waited on");
+        }
+        return ok({ deploy: result, wait: await waitWithProgress(deploymentId, timeoutSeconds, extra) });
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
 
-server.tool(
-  "get_variables",
-  "Get environment variables for a service",
-  {
+  registerTool(
+    "wait_for_deployment",
+    "Block until a deployment reaches SUCCESS, FAILED, CRASHED or REMOVED (or the timeout passes), polling with backoff. Status changes are sent as progress notifications; on failure the tail of the build and runtime logs is attached.",
+    {
+      deploymentId: z.string().describe("The deployment ID"),
+      ...waitArgs,
+    },
+    { readOnlyHint: true },
+    async ({ deploymentId, timeoutSeconds }, extra) => {
+      try {
+        return ok(await waitWithProgress(deploymentId, timeoutSeconds, extra));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "redeploy_service",
+    "Redeploy the latest deployment of a service",
+    {
+      serviceId: z.string().describe("The service ID to redeploy"),
+      environmentId: z.string().describe("The environment ID"),
+    },
+    {},
+    async ({ serviceId, environmentId }) => {
+      try {
+        return ok(await railway.redeploy(serviceId, environmentId));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "rollback_service",
+    "Roll a service back to the most recent successful deployment before the current one (even if since replaced and marked REMOVED) or to a given deploymentId, restoring that deployment's build. Shows the commit and image being restored; dryRun: true only shows them. With wait: true, blocks until the rollback deployment finishes.",
+    {
+      projectId: z.string().describe("The project ID"),
+      serviceId: z.string().describe("The service ID"),
+      environmentId: z.string().describe("The environment ID"),
+      deploymentId: z.string().optional().describe("Restore this deployment instead of the last successful one"),
+      dryRun: z.boolean().optional().default(false).describe("Only show what would be restored"),
+      wait: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Wait for the rollback deployment to reach a terminal status"),
+      timeoutSeconds: waitArgs.timeoutSeconds,
+    },
+    {},
+    async ({ projectId, serviceId, environmentId, deploymentId, dryRun, wait, timeoutSeconds }, extra) => {
+      try {
+        const target = { projectId, serviceId, environmentId, deploymentId };
+        const { current, restore, knownIds } = await planRollback(railway, target);
+        if (dryRun) return ok({ dryRun: true, current, restore });
+
+        const rollback = await railway.rollbackDeployment(restore.deploymentId);
+        if (!wait) return ok({ current, restore, rollback });
+        const newDeploymentId = await findNewDeployment(railway, target, knownIds);
+        if (!newDeploymentId) {
+          throw new Error("Rollback was triggered but its deployment didn't show up within 30s, so it can't be waited on");
+        }
+        return ok({ current, restore, rollback, wait: await waitWithProgress(newDeploymentId, timeoutSeconds, extra) });
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "restart_deployment",
+    "Restart a specific deployment",
+    {
+      deploymentId: z.string().describe("The deployment ID to restart"),
+    },
+    {},
+    async ({ deploymentId }) => {
+      try {
+        return ok(await railway.restartDeployment(deploymentId));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "remove_deployment",
+    "Remove/cancel a specific deployment. The first call returns a preview and a confirmToken; call again with the token to remove it.",
+    {
+      deploymentId: z.string().describe("The deployment ID to remove"),
+      ...confirmArgs,
+    },
+    {},
+    async ({ deploymentId, confirmToken }) => {
+      try {
+        return await confirmed(
+          "remove_deployment",
+          { deploymentId },
+          confirmToken,
+          () => previewDeploymentRemoval(railway, deploymentId),
+          () => railway.removeDeployment(deploymentId)
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  ENVIRONMENTS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "list_environments",
+    "List environments in a project (paginated)",
+    {
+      projectId: z.string().describe("The project ID"),
+      ...pageArgs,
+    },
+    { readOnlyHint: true },
+    async ({ projectId, first, after, all }) => {
+      try {
+        return ok(await railway.listEnvironments(projectId, { first, after, all }));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "create_environment",
+    "Create a new environment in a project",
+    {
+      projectId: z.string().describe("The project ID"),
+      name: z.string().describe("Name for the new environment (e.g. 'staging')"),
+    },
+    {},
+    async ({ projectId, name }) => {
+      try {
+        return ok(await railway.createEnvironment(projectId, name));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "delete_environment",
+    "Delete an environment from a project. The first call returns a preview (service instances, volumes, domains) and a confirmToken; call again with the token to delete.",
+    {
+      environmentId: z.string().describe("The environment ID to delete"),
+      ...confirmArgs,
+    },
+    {},
+    async ({ environmentId, confirmToken }) => {
+      try {
+        return await confirmed(
+          "delete_environment",
+          { environmentId },
+          confirmToken,
+          () => previewEnvironmentDeletion(railway, environmentId),
+          () => railway.deleteEnvironment(environmentId)
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "clone_environment",
+    "Create a new environment from an existing one, copying shared and per-service variables (with optional overrides), Railway-provided service domains and volume mounts. Returns a per-resource result so partial failures are visible.",
+    {
+      sourceEnvironmentId: z
+        .string()
+        .describe("The environment to copy from: its ID, or its name (e.g. 'staging') together with project"),
+      project: z.string().optional().describe("Project name or ID, to look up sourceEnvironmentId by name"),
+      workspace: z.string().optional().describe("Workspace token label, to narrow down a project name"),
+      name: z.string().describe("Name for the new environment (e.g. 'qa')"),
+      overrides: z
+        .record(z.record(z.string()))
+        .optional()
+        .describe(
+          'Variables to set in the new environment, keyed by "shared" or service name/ID, e.g. {"shared":{"NODE_ENV":"staging"},"api":{"LOG_LEVEL":"debug"}}'
+        ),
+      copyDomains: z.boolean().optional().default(true).describe("Generate service domains where the source has one"),
+      copyVolumes: z.boolean().optional().default(true).describe("Create volumes at the same mount paths (data is not copied)"),
+    },
+    {},
+    async ({ sourceEnvironmentId: source, project, workspace, name, overrides, copyDomains, copyVolumes }) => {
+      try {
+        // Not an environmentId argument, so registerTool doesn't resolve it
+        const { environmentId: sourceEnvironmentId } = await names.resolveArgs(
+          withDefaults({ project, workspace, environment: source }, [])
+        );
+        return ok(
+          await cloneEnvironment(railway, { sourceEnvironmentId, name, overrides, copyDomains, copyVolumes })
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  VARIABLES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "get_variables",
+    "Get environment variables for a service. Secret-looking values (tokens, passwords, database URLs, URL credentials) are masked with their length and a fingerprint unless listed in reveal.",
+    {
+      projectId: z.string().describe("The project ID"),
+      environmentId: z.string().describe("The environment ID"),
+      serviceId: z
+        .string()
+        .optional()
+        .describe("The service ID (omit for shared/project-level variables)"),
+      reveal: z
+        .array(z.string())
+        .optional()
+        .describe("Variable names to return in plaintext (may be disabled by policy)"),
+    },
+    { readOnlyHint: true },
+    async ({ projectId, environmentId, serviceId, reveal }) => {
+      try {
+        if (reveal?.length && !policy.allowsReveal) {
+          throw new PolicyError("revealing secret values is disabled");
+        }
+        const result = await railway.getVariables(projectId, environmentId, serviceId);
+        const { variables, redacted } = redactVariables(result?.variables || {}, reveal);
+        return ok({ variables, redacted, revealed: reveal?.filter((k) => k in variables) ?? [] });
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "set_variables",
+    "Set one or more environment variables (upsert)",
+    {
+      projectId: z.string().describe("The project ID"),
+      environmentId: z.string().describe("The environment ID"),
+      serviceId: z.string().describe("The service ID"),
+      variables: z
+        .string()
+        .describe(
+          'JSON object of key-value pairs, e.g. {"PORT":"3000","NODE_ENV":"production"}'
+        ),
+    },
+    {},
+    async ({ projectId, environmentId, serviceId, variables }) => {
+      try {
+        const vars = JSON.parse(variables);
+        return ok(
+          await railway.upsertVariables(
+            projectId,
+            environmentId,
+            serviceId,
+            vars
+          )
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "delete_variable",
+    "Delete a single environment variable. The first call returns a preview and a confirmToken; call again with the token to delete.",
+    {
+      projectId: z.string().describe("The project ID"),
+      environmentId: z.string().describe("The environment ID"),
+      serviceId: z.string().describe("The service ID"),
+      name: z.string().describe("The variable name to delete"),
+      ...confirmArgs,
+    },
+    {},
+    async ({ projectId, environmentId, serviceId, name, confirmToken }) => {
+      try {
+        return await confirmed(
+          "delete_variable",
+          { projectId, environmentId, serviceId, name },
+          confirmToken,
+          () => previewVariableDeletion(railway, projectId, environmentId, serviceId, name),
+          () => railway.deleteVariable(projectId, environmentId, serviceId, name)
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  // Scopes are nested objects, so their names are resolved in the handler
+  const scopeArgs = withNameArgs({
     projectId: z.string().describe("The project ID"),
     environmentId: z.string().describe("The environment ID"),
     serviceId: z
       .string()
       .optional()
       .describe("The service ID (omit for shared/project-level variables)"),
-  },
-  async ({ projectId, environmentId, serviceId }) => {
-    try {
-      return ok(
-        await railway.getVariables(projectId, environmentId, serviceId)
-      );
-    } catch (e) {
-      return err(e);
-    }
+  })!;
+  const variableScope = z.object(scopeArgs.shape);
+
+  async function resolveScope(scope: z.infer<typeof variableScope>) {
+    const resolved = await names.resolveArgs(scope);
+    checkRequired(resolved, scopeArgs.required);
+    return resolved as { projectId: string; environmentId: string; serviceId?: string };
   }
-);
 
-server.tool(
-  "set_variables",
-  "Set one or more environment variables (upsert)",
-  {
-    projectId: z.string().describe("The project ID"),
-    environmentId: z.string().describe("The environment ID"),
-    serviceId: z.string().describe("The service ID"),
-    variables: z
-      .string()
-      .describe(
-        'JSON object of key-value pairs, e.g. {"PORT":"3000","NODE_ENV":"production"}'
-      ),
-  },
-  async ({ projectId, environmentId, serviceId, variables }) => {
-    try {
-      const vars = JSON.parse(variables);
-      return ok(
-        await railway.upsertVariables(
+  registerTool(
+    "diff_variables",
+    "Compare variables between two (project, environment, service) scopes — e.g. staging vs production, possibly in different projects or workspaces. Reports keys only in A, only in B, and keys whose values differ. Values are compared by hash and never printed.",
+    {
+      a: variableScope.describe("First scope"),
+      b: variableScope.describe("Second scope"),
+      ignore: z
+        .array(z.string())
+        .optional()
+        .default([])
+        .describe("Keys expected to differ; '*' wildcards allowed (e.g. 'RAILWAY_*')"),
+    },
+    { readOnlyHint: true },
+    async (args) => {
+      try {
+        const [a, b] = await Promise.all([resolveScope(args.a), resolveScope(args.b)]);
+        const [varsA, varsB] = (await Promise.all([
+          railway.getVariables(a.projectId, a.environmentId, a.serviceId),
+          railway.getVariables(b.projectId, b.environmentId, b.serviceId),
+        ]));
+        return ok({
+          a,
+          b,
+          ...diffVariables(varsA?.variables || {}, varsB?.variables || {}, args.ignore),
+        });
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  registerTool(
+    "export_variables",
+    "Export a service's (or shared) variables as dotenv, JSON or shell export lines. Secret values are masked unless includeSecrets is set.",
+    {
+      projectId: z.string().describe("The project ID"),
+      environmentId: z.string().describe("The environment ID"),
+      serviceId: z
+        .string()
+        .optional()
+        .describe("The service ID (omit for shared/project-level variables)"),
+      format: z
+        .enum(["dotenv", "json", "shell"])
+        .optional()
+        .default("dotenv")
+        .describe("Output format (default dotenv); shell needs names made of letters, digits and _"),
+      includeSecrets: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Export secret values in plaintext (may be disabled by policy)"),
+      resolveReferences: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Resolve ${{...}} references to their values; false keeps the references"),
+    },
+    { readOnlyHint: true },
+    async ({ projectId, environmentId, serviceId, format, includeSecrets, resolveReferences }) => {
+      try {
+        if (includeSecrets && !policy.allowsReveal) {
+          throw new PolicyError("revealing secret values is disabled");
+        }
+        const result = await railway.getVariables(
           projectId,
           environmentId,
           serviceId,
-          vars
-        )
-      );
-    } catch (e) {
-      return err(e);
+          !resolveReferences
+        );
+        const raw: Record<string, string> = result?.variables || {};
+        const variables = includeSecrets ? raw : redactVariables(raw).variables;
+        return okText(renderVariables(variables, format));
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "delete_variable",
-  "Delete a single environment variable",
-  {
-    projectId: z.string().describe("The project ID"),
-    environmentId: z.string().describe("The environment ID"),
-    serviceId: z.string().describe("The service ID"),
-    name: z.string().describe("The variable name to delete"),
-  },
-  async ({ projectId, environmentId, serviceId, name }) => {
-    try {
-      return ok(
-        await railway.deleteVariable(projectId, environmentId, serviceId, name)
-      );
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "import_variables",
+    "Import variables from dotenv text (quotes, multiline values, comments and ${{ref}} Railway references supported). The first call returns a diff preview and a confirmToken; call again with the token to apply. mode 'replace' also deletes keys missing from the input. RAILWAY_* system variables are never imported; they are listed as skipped.",
+    {
+      projectId: z.string().describe("The project ID"),
+      environmentId: z.string().describe("The environment ID"),
+      serviceId: z.string().describe("The service ID"),
+      content: z.string().describe("dotenv-formatted text"),
+      mode: z
+        .enum(["merge", "replace"])
+        .optional()
+        .default("merge")
+        .describe("'merge' upserts only; 'replace' also deletes variables not in content (RAILWAY_* system variables are kept)"),
+      ...confirmArgs,
+    },
+    {},
+    async ({ projectId, environmentId, serviceId, content, mode, confirmToken }) => {
+      try {
+        const incoming = parseDotenv(content);
+        const plan = async () => {
+          // Compare against unrendered values so ${{ref}} inputs match what is stored
+          const current = await railway.getVariables(projectId, environmentId, serviceId, true);
+          const diff = diffVariables(current?.variables || {}, incoming, ["RAILWAY_*"]);
+          return {
+            add: diff.onlyInB,
+            change: diff.different,
+            delete: mode === "replace" ? diff.onlyInA : [],
+            unchanged: diff.identical + (mode === "replace" ? 0 : diff.onlyInA.length),
+            // Railway sets RAILWAY_* system variables itself; they are never imported
+            skipped: diff.ignored.filter((k) => k in incoming),
+          };
+        };
+        return await confirmed(
+          "import_variables",
+          { projectId, environmentId, serviceId, content, mode },
+          confirmToken,
+          plan,
+          async () => {
+            const { add, change, delete: remove, skipped } = await plan();
+            const upsert = Object.fromEntries([...add, ...change].map((k) => [k, incoming[k]]));
+            if (Object.keys(upsert).length > 0) {
+              await railway.upsertVariables(projectId, environmentId, serviceId, upsert);
+            }
+            const deleted: string[] = [];
+            const failed: { name: string; error: string }[] = [];
+            for (const name of remove) {
+              try {
+                await railway.deleteVariable(projectId, environmentId, serviceId, name);
+                deleted.push(name);
+              } catch (e) {
+                failed.push({ name, error: e instanceof Error ? e.message : String(e) });
+              }
+            }
+            return { upserted: Object.keys(upsert), deleted, failed, skipped };
+          },
+          "willChange"
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  DOMAINS
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  DOMAINS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-server.tool(
-  "create_service_domain",
-  "Generate a Railway-provided domain (*.up.railway.app) for a service",
-  {
-    serviceId: z.string().describe("The service ID"),
-    environmentId: z.string().describe("The environment ID"),
-  },
-  async ({ serviceId, environmentId }) => {
-    try {
-      return ok(
-        await railway.createServiceDomain(serviceId, environmentId)
-      );
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "create_service_domain",
+    "Generate a Railway-provided domain (*.up.railway.app) for a service",
+    {
+      serviceId: z.string().describe("The service ID"),
+      environmentId: z.string().describe("The environment ID"),
+    },
+    {},
+    async ({ serviceId, environmentId }) => {
+      try {
+        return ok(
+          await railway.createServiceDomain(serviceId, environmentId)
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "create_custom_domain",
-  "Attach a custom domain to a service",
-  {
-    serviceId: z.string().describe("The service ID"),
-    environmentId: z.string().describe("The environment ID"),
-    domain: z.string().describe("The custom domain (e.g. 'api.example.com')"),
-  },
-  async ({ serviceId, environmentId, domain }) => {
-    try {
-      return ok(
-        await railway.createCustomDomain(serviceId, environmentId, domain)
-      );
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "create_custom_domain",
+    "Attach a custom domain to a service",
+    {
+      serviceId: z.string().describe("The service ID"),
+      environmentId: z.string().describe("The environment ID"),
+      domain: z.string().describe("The custom domain (e.g. 'api.example.com')"),
+    },
+    {},
+    async ({ serviceId, environmentId, domain }) => {
+      try {
+        return ok(
+          await railway.createCustomDomain(serviceId, environmentId, domain)
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "delete_service_domain",
-  "Remove the Railway-provided domain from a service",
-  {
-    serviceId: z.string().describe("The service ID"),
-    environmentId: z.string().describe("The environment ID"),
-  },
-  async ({ serviceId, environmentId }) => {
-    try {
-      return ok(
-        await railway.deleteServiceDomain(environmentId, serviceId)
-      );
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "delete_service_domain",
+    "Remove the Railway-provided domain from a service. The first call returns a preview and a confirmToken; call again with the token to remove it.",
+    {
+      serviceId: z.string().describe("The service ID"),
+      environmentId: z.string().describe("The environment ID"),
+      ...confirmArgs,
+    },
+    {},
+    async ({ serviceId, environmentId, confirmToken }) => {
+      try {
+        return await confirmed(
+          "delete_service_domain",
+          { serviceId, environmentId },
+          confirmToken,
+          () => previewServiceDomainDeletion(railway, environmentId, serviceId),
+          () => railway.deleteServiceDomain(environmentId, serviceId)
+        );
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  LOGS
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  LOGS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-server.tool(
-  "get_deployment_logs",
-  "Get runtime/application logs for a deployment",
-  {
-    deploymentId: z.string().describe("The deployment ID"),
-    limit: z
-      .number()
-      .optional()
-      .default(100)
-      .describe("Max number of log lines (default 100)"),
-  },
-  async ({ deploymentId, limit }) => {
-    try {
-      return ok(await railway.getDeploymentLogs(deploymentId, limit));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "get_deployment_logs",
+    "Get runtime/application logs for a deployment",
+    {
+      deploymentId: z.string().describe("The deployment ID"),
+      limit: z
+        .number()
+        .optional()
+        .default(100)
+        .describe("Max number of log lines (default 100)"),
+    },
+    { readOnlyHint: true },
+    async ({ deploymentId, limit }) => {
+      try {
+        const result = await railway.getDeploymentLogs(deploymentId, limit);
+        return ok({ deploymentLogs: redactLogs(result?.deploymentLogs || []) });
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  "get_build_logs",
-  "Get build logs for a deployment",
-  {
-    deploymentId: z.string().describe("The deployment ID"),
-  },
-  async ({ deploymentId }) => {
-    try {
-      return ok(await railway.getBuildLogs(deploymentId));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "get_build_logs",
+    "Get build logs for a deployment",
+    {
+      deploymentId: z.string().describe("The deployment ID"),
+    },
+    { readOnlyHint: true },
+    async ({ deploymentId }) => {
+      try {
+        const result = await railway.getBuildLogs(deploymentId);
+        return ok({ buildLogs: redactLogs(result?.buildLogs || []) });
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  VOLUMES
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerTool(
+    "tail_logs",
+    "Stream live logs for a deployment for a while, or until a line matches a pattern. Lines are sent as MCP logging/progress notifications as they arrive and returned at the end.",
+    {
+      deploymentId: z.string().describe("The deployment ID"),
+      source: z
+        .enum(["deploy", "build"])
+        .optional()
+        .default("deploy")
+        .describe("Runtime logs ('deploy') or build logs ('build')"),
+      durationSeconds: z
+        .number()
+        .positive()
+        .max(600)
+        .optional()
+        .default(30)
+        .describe("Stop after this many seconds (default 30, max 600)"),
+      until: z
+        .string()
+        .optional()
+        .describe("Regular expression — stop as soon as a log line matches it"),
+      filter: z
+        .string()
+        .optional()
+        .describe("Railway log filter expression (e.g. '@level:error')"),
+      maxLines: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(500)
+        .describe("Stop after collecting this many lines (default 500)"),
+    },
+    { readOnlyHint: true },
+    async ({ deploymentId, source, durationSeconds, until, filter, maxLines }, extra) => {
+      try {
+        const pattern = until ? new RegExp(until) : undefined;
+        const controller = new AbortController();
+        const lines: LogLine[] = [];
+        let stoppedBy: "duration" | "pattern" | "maxLines" | "cancelled" | "complete" = "complete";
+        let match: LogLine | undefined;
 
-server.tool(
-  "create_volume",
-  "Create a persistent volume attached to a service",
-  {
-    projectId: z.string().describe("The project ID"),
-    environmentId: z.string().describe("The environment ID"),
-    serviceId: z.string().describe("The service ID to attach the volume to"),
-    mountPath: z.string().describe("Mount path inside the container (e.g. '/data')"),
-  },
-  async ({ projectId, environmentId, serviceId, mountPath }) => {
-    try {
-      return ok(
-        await railway.createVolume(
-          projectId,
-          environmentId,
-          serviceId,
-          mountPath
-        )
-      );
-    } catch (e) {
-      return err(e);
+        const stop = (reason: typeof stoppedBy) => {
+          if (controller.signal.aborted) return;
+          stoppedBy = reason;
+          controller.abort();
+        };
+        const timer = setTimeout(() => stop("duration"), durationSeconds * 1000);
+        const onCancel = () => stop("cancelled");
+        extra.signal.addEventListener("abort", onCancel);
+
+        const onLogs = (batch: LogLine[]) => {
+          for (const line of redactLogs(batch)) {
+            if (controller.signal.aborted) return;
+            lines.push(line);
+            notify(extra, lines.length, `${line.timestamp} ${line.message}`, {
+              level: logLevel(line.severity),
+              logger: `railway:${source}`,
+            });
+            if (pattern?.test(line.message)) {
+              match = line;
+              stop("pattern");
+            } else if (lines.length >= maxLines) {
+              stop("maxLines");
+            }
+          }
+        };
+
+        try {
+          if (source === "build") {
+            await railway.tailBuildLogs(deploymentId, onLogs, controller.signal, filter);
+          } else {
+            await railway.tailDeploymentLogs(deploymentId, onLogs, controller.signal, filter);
+          }
+        } finally {
+          clearTimeout(timer);
+          extra.signal.removeEventListener("abort", onCancel);
+        }
+
+        return ok({ deploymentId, source, stoppedBy, match, lineCount: lines.length, logs: lines });
+      } catch (e) {
+        return err(e);
+      }
     }
-  }
-);
+  );
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  RAW QUERY (escape hatch)
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  VOLUMES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-server.tool(
-  "raw_graphql",
-  "Execute an arbitrary GraphQL query/mutation against Railway's API. Use this for operations not covered by other tools.",
-  {
-    query: z
-      .string()
-      .describe("The full GraphQL query or mutation string"),
-    variables: z
-      .string()
-      .optional()
-      .describe("JSON string of variables (e.g. '{\"id\": \"abc123\"}')"),
-  },
-  async ({ query, variables }) => {
-    try {
-      return ok(await railway.rawQuery(query, variables));
-    } catch (e) {
-      return err(e);
+  registerTool(
+    "create_volume",
+    "Create a persistent volume attached to a service",
+    {
+      projectId: z.string().describe("The project ID"),
+      environmentId: z.string().describe("The environment ID"),
+      serviceId: z.string().describe("The service ID to attach the volume to"),
+      mountPath: z.string().describe("Mount path inside the container (e.g. '/data')"),
+    },
+    {},
+    async ({ projectId, environmentId, serviceId, mountPath }) => {
+      try {
+        return ok(
+          await railway.createVolume(
+            projectId,
+            environmentId,
+            serviceId,
+            mountPath
+          )
+        );
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  SEARCH (across every workspace token)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  const searchIndex = new SearchIndex(railway);
+
+  registerTool(
+    "search",
+    "Fuzzy-search workspaces, projects, environments, services, domains and (opt-in) variable names across all workspace tokens. Each result has its full ID path and the token label that can see it. The index is built on first use; pass refresh: true to rebuild it after changes.",
+    {
+      query: z.string().min(1).describe("What to look for, e.g. 'ingest' or 'api.example.com'"),
+      kinds: z
+        .array(z.enum(["workspace", "project", "environment", "service", "domain", "variable"]))
+        .optional()
+        .describe("Only these kinds of resource"),
+      includeVariables: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also search variable names (never values); one request per scope the first time"),
+      refresh: z.boolean().optional().default(false).describe("Rebuild the index before searching"),
+      limit: z.number().int().positive().max(200).optional().default(20).describe("Maximum results (default 20)"),
+    },
+    { readOnlyHint: true },
+    async ({ query, kinds, includeVariables, refresh, limit }) => {
+      try {
+        return ok(await searchIndex.search(query, { kinds, includeVariables, refresh, limit }));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  RAW QUERY (escape hatch)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "raw_graphql",
+    "Execute an arbitrary GraphQL query/mutation against Railway's API. Use this for operations not covered by other tools.",
+    {
+      query: z
+        .string()
+        .describe("The full GraphQL query or mutation string"),
+      variables: z
+        .string()
+        .optional()
+        .describe("JSON string of variables (e.g. '{\"id\": \"abc123\"}')"),
+    },
+    {},
+    async ({ query, variables }) => {
+      try {
+        return ok(await railway.rawQuery(query, variables));
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  INTROSPECT (schema discovery)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "introspect_schema",
+    "Fetch the full Railway GraphQL schema. Useful for discovering available operations beyond the built-in tools.",
+    {},
+    { readOnlyHint: true },
+    async () => {
+      try {
+        return ok(await railway.introspect());
+      } catch (e) {
+        return err(e);
+      }
     }
+  );
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  AUDIT LOG (every mutation made through this server)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  registerTool(
+    "audit_log",
+    "Read the audit log of mutations made through this server (newest first): timestamp, tool, redacted arguments, token, target IDs, outcome and duration.",
+    {
+      since: z.string().optional().describe("Only entries at or after this ISO timestamp"),
+      until: z.string().optional().describe("Only entries at or before this ISO timestamp"),
+      tool: z.string().optional().describe("Only entries from this tool (e.g. 'set_variables') or client method (e.g. 'upsertVariables')"),
+      projectId: z.string().optional().describe("Only entries that touched this project"),
+      outcome: z.enum(["ok", "error", "denied"]).optional().describe("Only entries with this outcome ('denied' = blocked by policy)"),
+      limit: z.number().int().min(1).max(1000).optional().describe("Most recent entries to return (default 50)"),
+    },
+    { readOnlyHint: true },
+    async (filter) => {
+      try {
+        if (!audit) return err(new Error("The audit log is turned off (RAILWAY_MCP_AUDIT_FILE=off)"));
+        // HTTP clients limited to some tokens only see what went through them
+        const tokens = client ? railway.clients.map((c) => c.label) : undefined;
+        return ok({ file: audit.path, ...audit.query({ ...filter, tokens }) });
+      } catch (e) {
+        return err(e);
+      }
+    }
+  );
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  RESOURCES (railway:// URIs for clients that browse resources)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  function jsonResource(uri: URL, data: unknown) {
+    return {
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }],
+    };
   }
-);
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-//  INTROSPECT (schema discovery)
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  /** Template variables are string | string[]; ours are always single segments */
+  const single = (value: string | string[]) => (Array.isArray(value) ? value[0] : value);
+
+  // Resources and prompts read what a read-only tool would, so each one names
+  // that tool: it is only registered when the policy allows the tool, and it
+  // reads in the tool's call context so workspace rules apply to it too.
+  const asTool = <T>(tool: string, fn: () => T) => callContext.run({ tool, retries: 0, client }, fn);
+
+  function registerResource(
+    tool: string,
+    name: string,
+    template: ResourceTemplate,
+    metadata: ResourceMetadata,
+    read: ReadResourceTemplateCallback
+  ) {
+    if (!policy.allowsTool(tool, true)) return;
+    server.registerResource(name, template, metadata, (uri, variables, extra) =>
+      asTool(tool, async () => read(uri, variables, extra))
+    );
+  }
+
+  registerResource(
+    "list_projects",
+    "workspace-projects",
+    new ResourceTemplate("railway://workspace/{label}/projects", {
+      list: async () => ({
+        resources: railway.clients.filter((c) => !c.disabled).map((c) => ({
+          uri: `railway://workspace/${encodeURIComponent(c.label)}/projects`,
+          name: `${c.label} projects`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: { label: () => railway.clients.filter((c) => !c.disabled).map((c) => c.label) },
+    }),
+    { description: "Projects visible to one workspace token", mimeType: "application/json" },
+    async (uri, { label }) => {
+      const wanted = decodeURIComponent(single(label)).toLowerCase();
+      const { workspaces } = await railway.listAllProjects();
+      const workspace = workspaces.find((w) => w.workspace.toLowerCase() === wanted);
+      if (!workspace) throw new Error(`No workspace token labelled "${single(label)}"`);
+      return jsonResource(uri, workspace);
+    }
+  );
+
+  registerResource(
+    "get_project",
+    "project",
+    new ResourceTemplate("railway://project/{projectId}", {
+      list: async () => {
+        const { workspaces } = await asTool("get_project", () => railway.listAllProjects());
+        return {
+          resources: workspaces.flatMap((w) =>
+            w.projects.map((p) => ({
+              uri: `railway://project/${p.id}`,
+              name: p.name,
+              description: `Project in workspace ${w.workspace}`,
+              mimeType: "application/json",
+            }))
+          ),
+        };
+      },
+    }),
+    { description: "A project with its environments, services, domains and volumes", mimeType: "application/json" },
+    async (uri, { projectId }) => jsonResource(uri, await railway.getProject(single(projectId)))
+  );
+
+  registerResource(
+    "get_variables",
+    "service-variables",
+    new ResourceTemplate("railway://project/{projectId}/env/{environmentId}/service/{serviceId}/variables", {
+      list: undefined,
+    }),
+    { description: "Variables of a service in an environment (secret values masked)", mimeType: "application/json" },
+    async (uri, { projectId, environmentId, serviceId }) => {
+      const result = await railway.getVariables(single(projectId), single(environmentId), single(serviceId));
+      return jsonResource(uri, redactVariables(result?.variables || {}));
+    }
+  );
+
+  registerResource(
+    "get_deployment",
+    "deployment",
+    new ResourceTemplate("railway://deployment/{id}", { list: undefined }),
+    { description: "Deployment status and metadata; subscribe to be notified of status changes", mimeType: "application/json" },
+    async (uri, { id }) => jsonResource(uri, await railway.getDeployment(single(id)))
+  );
+
+  registerResource(
+    "get_deployment_logs",
+    "deployment-logs",
+    new ResourceTemplate("railway://deployment/{id}/logs", { list: undefined }),
+    { description: "Runtime logs of a deployment (credentials masked)", mimeType: "application/json" },
+    async (uri, { id }) => {
+      const result = await railway.getDeploymentLogs(single(id));
+      return jsonResource(uri, { deploymentLogs: redactLogs(result?.deploymentLogs || []) });
+    }
+  );
 
-server.tool(
-  "introspect_schema",
-  "Fetch the full Railway GraphQL schema. Useful for discovering available operations beyond the built-in tools.",
-  {},
-  async () => {
-    try {
-      return ok(await railway.introspect());
-    } catch (e) {
-      return err(e);
+  // Subscriptions to a deployment (or its logs) poll its status and send
+  // resources/updated for both URIs whenever it changes.
+  const DEPLOYMENT_URI = /^railway:\/\/deployment\/([^/]+)(\/logs)?$/;
+  const subscriptions = new Set<string>();
+  const deploymentWatcher = new DeploymentWatcher(railway, (deploymentId) => {
+    for (const uri of [`railway://deployment/${deploymentId}`, `railway://deployment/${deploymentId}/logs`]) {
+      if (subscriptions.has(uri)) void server.server.sendResourceUpdated({ uri }).catch(() => {});
     }
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.add(uri);
+    const match = DEPLOYMENT_URI.exec(uri);
+    // The polling timer starts here and keeps this call context
+    if (match && policy.allowsTool("get_deployment", true)) {
+      asTool("get_deployment", () => deploymentWatcher.watch(match[1]));
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.delete(uri);
+    const match = DEPLOYMENT_URI.exec(uri);
+    const stillWanted = match && [`railway://deployment/${match[1]}`, `railway://deployment/${match[1]}/logs`].some((u) =>
+      subscriptions.has(u)
+    );
+    if (match && !stillWanted) deploymentWatcher.unwatch(match[1]);
+    return {};
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //  PROMPTS (common workflows, filled in with live project state)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  const promptProject = z.string().describe("Project name or ID");
+
+  /** Prompt arguments with the project resolved to its ID, as tools get them */
+  const withProjectId = async <A extends { project: string }>(args: A): Promise<A> => ({
+    ...args,
+    project: await names.resolveProject(args.project),
+  });
+
+  if (policy.allowsTool("diagnose_deployment", true)) {
+    server.registerPrompt(
+      "diagnose-deployment",
+      {
+        title: "Diagnose failing deployment",
+        description: "Investigate why a service is failing, starting from its latest deployments and a log excerpt",
+        argsSchema: {
+          project: promptProject,
+          service: z.string().describe("Service ID or name"),
+          environment: z.string().describe("Environment ID or name"),
+        },
+      },
+      (args) => asTool("diagnose_deployment", async () => diagnoseDeploymentPrompt(railway, await withProjectId(args)))
+    );
+  }
+
+  if (policy.allowsTool("diff_variables", true)) {
+    server.registerPrompt(
+      "promote-environment",
+      {
+        title: "Promote staging to production",
+        description: "Bring one environment in line with another: variable differences, sources, deploy and verify",
+        argsSchema: {
+          project: promptProject,
+          service: z.string().optional().describe("Only this service (ID or name); default all"),
+          from: z.string().optional().describe("Environment to promote from (default 'staging')"),
+          to: z.string().optional().describe("Environment to promote to (default 'production')"),
+        },
+      },
+      (args) => asTool("diff_variables", async () => promoteEnvironmentPrompt(railway, await withProjectId(args)))
+    );
   }
-);
+
+  if (policy.allowsTool("get_variables", true)) {
+    server.registerPrompt(
+      "rotate-secret",
+      {
+        title: "Rotate a secret across environments",
+        description: "Replace a secret everywhere it is set, grouped by value fingerprint, and redeploy what uses it",
+        argsSchema: {
+          project: promptProject,
+          variable: z.string().describe("Variable name, e.g. STRIPE_SECRET_KEY"),
+          environment: z.string().optional().describe("Only this environment (ID or name); default all"),
+        },
+      },
+      (args) => asTool("get_variables", async () => rotateSecretPrompt(railway, await withProjectId(args)))
+    );
+  }
+
+  if (policy.allowsTool("project_status", true)) {
+    server.registerPrompt(
+      "audit-unused-resources",
+      {
+        title: "Audit project for unused resources",
+        description: "Find services, environments, volumes and domains that look abandoned",
+        argsSchema: { project: promptProject },
+      },
+      (args) => asTool("project_status", async () => auditUnusedPrompt(railway, await withProjectId(args)))
+    );
+  }
+
+  // Stop polling subscribed deployments once the client goes away
+  server.server.onclose = () => deploymentWatcher.stop();
+
+  return server;
+}
 
 // ─── Start Server ────────────────────────────────────────────
 
-const transport = new StdioServerTransport();
-server.connect(transport).catch((error) => {
-  console.error("Failed to start Railway MCP server:", error);
+console.error(`Railway MCP: policy ${policy.describe()}`);
+
+// Check every token before serving, so a bad or expired one is reported once
+// here and then disabled rather than failing every call routed to it
+const validation = await allWorkspaces.validateTokens();
+for (const { label, status } of validation) {
+  console.error(`Railway MCP: token "${label}": ${describeTokenStatus(status)}`);
+}
+if (validation.every(({ status }) => !status.valid)) {
+  console.error("ERROR: Railway rejected every configured token");
   process.exit(1);
-});
+}
+
+if (transport === "http") {
+  startHttpServer({
+    host: httpHost,
+    port: httpPort,
+    clients: httpClients,
+    createServer: (c) =>
+      createServer(c.workspaces ? allWorkspaces.restrictTo(c.workspaces) : allWorkspaces, c.name),
+    health: () => ({
+      transport: "http",
+      tokens: allWorkspaces.clients.length,
+      disabledTokens: allWorkspaces.clients.filter((c) => c.disabled).length,
+    }),
+  })
+    .then(() => {
+      console.error(
+        `Railway MCP: serving Streamable HTTP on http://${httpHost}:${httpPort}/mcp (SSE fallback at /sse) for ${httpClients.length} client key(s)`
+      );
+      if (!serveFiles) {
+        console.error(
+          `Railway MCP: file access is off over HTTP (${[...FILE_TOOLS, ...FILE_ARGS].join(", ")} not offered; RAILWAY_MCP_HTTP_FILES=true allows them)`
+        );
+      }
+    })
+    .catch((error) => {
+      console.error("Failed to start Railway MCP server:", error);
+      process.exit(1);
+    });
+} else {
+  const server = createServer(allWorkspaces);
+  if (withheldTools.size > 0) {
+    console.error(`Railway MCP: tools not registered by policy: ${[...withheldTools].join(", ")}`);
+  }
+  server.connect(new StdioServerTransport()).catch((error) => {
+    console.error("Failed to start Railway MCP server:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Token Labels
+ * One spelling for every place a token label is written: config workspace
+ * keys, RAILWAY_TOKEN_<LABEL>, policy workspace keys and
+ * RAILWAY_READ_ONLY_WORKSPACES.
+ */
+
+import type { z } from "zod";
+
+/**
+ * Token labels are compared in this form: lower case, with underscores as
+ * spaces, so the config key "My_Team" and RAILWAY_TOKEN_MY_TEAM both label
+ * the token "my team"
+ */
+export const normalizeLabel = (label: string) => label.toLowerCase().replace(/_/g, " ");
+
+/** Refinement for records keyed by token label: no two keys may name the same label */
+export function distinctLabels(record: Record<string, unknown>, ctx: z.RefinementCtx) {
+  const seen = new Map<string, string>();
+  for (const key of Object.keys(record)) {
+    const other = seen.get(normalizeLabel(key));
+    if (other !== undefined) {
+      ctx.addIssue({ code: "custom", path: [key], message: `names the same token label as "${other}"` });
+    }
+    seen.set(normalizeLabel(key), key);
+  }
+}
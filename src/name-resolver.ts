@@ -0,0 +1,205 @@
+/**
+ * Name Resolver
+ * Lets tools accept project, environment and service names (optionally
+ * narrowed by workspace label) wherever they take IDs. Lookups use briefly
+ * cached listAllProjects/getProject results; a name that isn't found triggers
+ * one refresh before giving up. Ambiguous names fail with the candidates.
+ */
+
+import { z } from "zod";
+import type { MultiRailwayClient } from "./railway-client.js";
+import { summarizeProject, ProjectSummary } from "./project-summary.js";
+
+/** Railway IDs are UUIDs; anything else is taken as a name */
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const isId = (value: string) => UUID.test(value);
+
+const CACHE_TTL_MS = 60_000;
+
+/** Name argument → the ID argument it fills in */
+export const NAME_ARGS = {
+  project: "projectId",
+  environment: "environmentId",
+  service: "serviceId",
+} as const;
+
+type IdArg = (typeof NAME_ARGS)[keyof typeof NAME_ARGS];
+const ID_ARGS = Object.values(NAME_ARGS) as IdArg[];
+
+interface Candidate {
+  id: string;
+  name: string;
+  /** Where it lives — workspace label for projects, project name otherwise */
+  where: string;
+}
+
+/** Pick `wanted` out of `candidates` by exact name, falling back to case-insensitive */
+function match(kind: string, wanted: string, candidates: Candidate[], scope: string): string | undefined {
+  let found = candidates.filter((c) => c.name === wanted);
+  if (found.length === 0) found = candidates.filter((c) => c.name.toLowerCase() === wanted.toLowerCase());
+  // The same project can be visible to several tokens
+  found = [...new Map(found.map((c) => [c.id, c])).values()];
+  if (found.length > 1) {
+    throw new Error(
+      `${kind} name "${wanted}" is ambiguous${scope}: ${found.map((c) => `${c.name} (${c.id}, ${c.where})`).join("; ")}. Pass the ID instead.`
+    );
+  }
+  return found[0]?.id;
+}
+
+export class NameResolver {
+  private projects?: { at: number; list: Candidate[] };
+  private summaries = new Map<string, { at: number; summary: ProjectSummary }>();
+
+  constructor(private railway: MultiRailwayClient, private ttlMs = CACHE_TTL_MS) {}
+
+  async resolveProject(ref: string, workspace?: string): Promise<string> {
+    if (isId(ref)) return ref;
+    const scope = workspace ? ` in workspace "${workspace}"` : "";
+    const lookup = async (refresh: boolean) => {
+      const all = await this.projectList(refresh);
+      const candidates = workspace ? all.filter((p) => p.where.toLowerCase() === workspace.toLowerCase()) : all;
+      return { candidates, id: match("Project", ref, candidates, scope) };
+    };
+    let result = await lookup(false);
+    if (!result.id) result = await lookup(true);
+    if (!result.id) {
+      const names = [...new Set(result.candidates.map((c) => c.name))];
+      throw new Error(`No project named "${ref}"${scope} (available: ${names.join(", ") || "none"})`);
+    }
+    return result.id;
+  }
+
+  async resolveEnvironment(projectId: string, ref: string): Promise<string> {
+    return this.resolveChild(projectId, ref, "Environment", (p) => p.environments);
+  }
+
+  async resolveService(projectId: string, ref: string): Promise<string> {
+    return this.resolveChild(projectId, ref, "Service", (p) => p.services);
+  }
+
+  /**
+   * Fill projectId/environmentId/serviceId from project/environment/service
+   * (names or IDs). Environments and services are looked up in the project
+   * given, or the one owning the serviceId/environmentId passed.
+   */
+  async resolveArgs<T extends Record<string, any>>(args: T): Promise<T> {
+    const out: Record<string, any> = { ...args };
+    if (out.project && !out.projectId) out.projectId = await this.resolveProject(out.project, out.workspace);
+
+    for (const [nameArg, idArg] of [["environment", "environmentId"], ["service", "serviceId"]] as const) {
+      const ref = out[nameArg];
+      if (!ref || out[idArg]) continue;
+      if (isId(ref)) {
+        out[idArg] = ref;
+        continue;
+      }
+      const projectId = out.projectId ?? (await this.projectOf(out));
+      if (!projectId) {
+        throw new Error(`Pass project (or projectId) so the ${nameArg} "${ref}" can be looked up by name`);
+      }
+      out[idArg] =
+        nameArg === "environment"
+          ? await this.resolveEnvironment(projectId, ref)
+          : await this.resolveService(projectId, ref);
+    }
+    return out as T;
+  }
+
+  private async projectOf(args: Record<string, any>): Promise<string | undefined> {
+    if (args.serviceId) {
+      const result = (await this.railway.getService(args.serviceId)) as any;
+      return result?.service?.projectId;
+    }
+    if (args.environmentId) {
+      const result = (await this.railway.getEnvironment(args.environmentId)) as any;
+      return result?.environment?.projectId;
+    }
+    return undefined;
+  }
+
+  private async resolveChild(
+    projectId: string,
+    ref: string,
+    kind: string,
+    pick: (p: ProjectSummary) => { id: string; name: string }[]
+  ): Promise<string> {
+    if (isId(ref)) return ref;
+    const lookup = async (refresh: boolean) => {
+      const project = await this.summary(projectId, refresh);
+      const candidates = pick(project).map((c) => ({ ...c, where: project.name }));
+      return { project, id: match(kind, ref, candidates, ` in project "${project.name}"`) };
+    };
+    let result = await lookup(false);
+    if (!result.id) result = await lookup(true);
+    if (!result.id) {
+      const names = pick(result.project).map((c) => c.name);
+      throw new Error(
+        `No ${kind.toLowerCase()} named "${ref}" in project "${result.project.name}" (available: ${names.join(", ") || "none"})`
+      );
+    }
+    return result.id;
+  }
+
+  private async projectList(refresh: boolean): Promise<Candidate[]> {
+    if (!refresh && this.projects && Date.now() - this.projects.at < this.ttlMs) return this.projects.list;
+    const { workspaces } = await this.railway.listAllProjects();
+    const list = workspaces.flatMap((w) =>
+      w.projects.map((p: any) => ({ id: p.id as string, name: p.name as string, where: w.workspace }))
+    );
+    this.projects = { at: Date.now(), list };
+    return list;
+  }
+
+  private async summary(projectId: string, refresh: boolean): Promise<ProjectSummary> {
+    const cached = this.summaries.get(projectId);
+    if (!refresh && cached && Date.now() - cached.at < this.ttlMs) return cached.summary;
+    const result = (await this.railway.getProject(projectId)) as any;
+    if (!result?.project) throw new Error(`Project ${projectId} not found`);
+    const summary = summarizeProject(result.project);
+    this.summaries.set(projectId, { at: Date.now(), summary });
+    return summary;
+  }
+}
+
+/**
+ * Add project/environment/service (and workspace) name arguments next to the
+ * ID arguments a tool schema has. The ID arguments become optional; the
+ * returned `required` lists those the tool can't do without.
+ */
+export function withNameArgs(shape: Record<string, z.ZodTypeAny>) {
+  const idArgs = ID_ARGS.filter((key) => key in shape);
+  if (idArgs.length === 0) return undefined;
+
+  const out: Record<string, z.ZodTypeAny> = { ...shape };
+  const required: IdArg[] = [];
+  for (const idArg of idArgs) {
+    if (!shape[idArg].isOptional()) required.push(idArg);
+    out[idArg] = shape[idArg].optional();
+  }
+  const describe = {
+    project: "Project name or ID (alternative to projectId; also lets environment/service be given by name)",
+    environment: "Environment name (e.g. 'production') or ID, alternative to environmentId",
+    service: "Service name or ID, alternative to serviceId",
+  };
+  for (const [nameArg, idArg] of Object.entries(NAME_ARGS) as [keyof typeof NAME_ARGS, IdArg][]) {
+    // A project name helps resolve environment/service names even when the tool takes no projectId
+    if (idArgs.includes(idArg) || nameArg === "project") {
+      out[nameArg] ??= z.string().optional().describe(describe[nameArg]);
+    }
+  }
+  out.workspace ??= z.string().optional().describe("Workspace token label, to narrow down a project name");
+  return { shape: out, required };
+}
+
+/** Throw if a required ID is still missing after resolution */
+export function checkRequired(args: Record<string, any>, required: string[]) {
+  const missing = required.filter((key) => !args[key]);
+  if (missing.length > 0) {
+    const alternatives = missing.map((key) => {
+      const nameArg = Object.entries(NAME_ARGS).find(([, id]) => id === key)?.[0];
+      return `${key} (or ${nameArg})`;
+    });
+    throw new Error(`Missing ${alternatives.join(", ")}`);
+  }
+}
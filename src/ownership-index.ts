@@ -0,0 +1,148 @@
+/**
+ * Ownership Index
+ * Remembers which workspace token owns each Railway resource ID so that
+ * MultiRailwayClient can route ID-based calls straight to the right client.
+ * Persisted as JSON so the mapping survives restarts.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export const DEFAULT_OWNERSHIP_FILE = join(
+  homedir(),
+  ".cache",
+  "railway-mcp",
+  "ownership.json"
+);
+
+export type ResourceKind =
+  | "workspace"
+  | "project"
+  | "service"
+  | "environment"
+  | "deployment";
+
+interface OwnerEntry {
+  kind: ResourceKind;
+  label: string;
+  /** Parent project, so deleting a project also forgets its children */
+  projectId?: string;
+}
+
+interface OwnershipFile {
+  version: 1;
+  owners: Record<string, OwnerEntry>;
+}
+
+export class OwnershipIndex {
+  private owners = new Map<string, OwnerEntry>();
+  private filePath?: string;
+  private dirty = false;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  /** Token label that owns the given ID, if known */
+  get(id: string): string | undefined {
+    return this.owners.get(id)?.label;
+  }
+
+  /** Project an ID belongs to (itself for a project), if known */
+  projectOf(id: string): string | undefined {
+    const entry = this.owners.get(id);
+    return entry?.kind === "project" ? id : entry?.projectId;
+  }
+
+  set(kind: ResourceKind, id: string, label: string, projectId?: string) {
+    const current = this.owners.get(id);
+    if (
+      current &&
+      current.label === label &&
+      current.kind === kind &&
+      current.projectId === projectId
+    ) {
+      return;
+    }
+    this.owners.set(id, { kind, label, projectId });
+    this.dirty = true;
+  }
+
+  /** Record a project node (as returned by listProjects/getProject) and its nested edges */
+  recordProject(project: any, label: string) {
+    if (!project?.id) return;
+    this.set("project", project.id, label);
+    for (const e of project.environments?.edges || []) {
+      if (e?.node?.id) this.set("environment", e.node.id, label, project.id);
+    }
+    for (const e of project.services?.edges || []) {
+      if (e?.node?.id) this.set("service", e.node.id, label, project.id);
+    }
+  }
+
+  /** Forget an ID, and everything recorded under it if it is a project */
+  delete(id: string) {
+    if (this.owners.delete(id)) this.dirty = true;
+    for (const [key, entry] of this.owners) {
+      if (entry.projectId === id) {
+        this.owners.delete(key);
+        this.dirty = true;
+      }
+    }
+  }
+
+  /** Drop entries whose token label is no longer configured */
+  retainLabels(labels: string[]) {
+    const keep = new Set(labels);
+    for (const [key, entry] of this.owners) {
+      if (!keep.has(entry.label)) {
+        this.owners.delete(key);
+        this.dirty = true;
+      }
+    }
+    this.flush();
+  }
+
+  /** Write pending changes to disk. Failures are logged, never thrown. */
+  flush() {
+    if (!this.dirty || !this.filePath) return;
+    const data: OwnershipFile = {
+      version: 1,
+      owners: Object.fromEntries(this.owners),
+    };
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(data, null, 2), { mode: 0o600 });
+      this.dirty = false;
+    } catch (e) {
+      console.error(
+        `Railway MCP: could not save ownership index to ${this.filePath}:`,
+        e instanceof Error ? e.message : e
+      );
+    }
+  }
+
+  private load() {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, "utf8");
+    } catch {
+      return; // First run — nothing saved yet
+    }
+    try {
+      const data = JSON.parse(raw) as OwnershipFile;
+      if (data?.version !== 1 || typeof data.owners !== "object") return;
+      for (const [id, entry] of Object.entries(data.owners)) {
+        if (entry?.label && entry?.kind) this.owners.set(id, entry);
+      }
+    } catch (e) {
+      console.error(
+        `Railway MCP: ignoring unreadable ownership index ${this.filePath}:`,
+        e instanceof Error ? e.message : e
+      );
+    }
+  }
+}
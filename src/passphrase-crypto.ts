@@ -0,0 +1,63 @@
+/**
+ * Passphrase Crypto
+ * AES-256-GCM encryption of individual strings under a key derived from a
+ * passphrase with scrypt. Used to carry variable values inside snapshots
+ * without writing them in plaintext.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+
+const PREFIX = "enc:v1:";
+/** Known plaintext stored alongside the salt so a wrong passphrase fails up front */
+const CHECK_PLAINTEXT = "railway-mcp";
+
+export interface EncryptionHeader {
+  cipher: "aes-256-gcm";
+  kdf: "scrypt";
+  salt: string;
+  check: string;
+}
+
+export class Sealer {
+  private constructor(private key: Buffer) {}
+
+  /** A sealer with a fresh salt, and the header needed to open its output later */
+  static create(passphrase: string): { sealer: Sealer; header: EncryptionHeader } {
+    const salt = randomBytes(16).toString("base64");
+    const sealer = new Sealer(deriveKey(passphrase, salt));
+    return { sealer, header: { cipher: "aes-256-gcm", kdf: "scrypt", salt, check: sealer.seal(CHECK_PLAINTEXT) } };
+  }
+
+  /** Reopen with the header written at export time; throws on a wrong passphrase */
+  static open(passphrase: string, header: EncryptionHeader): Sealer {
+    const sealer = new Sealer(deriveKey(passphrase, header.salt));
+    let check: string | undefined;
+    try {
+      check = sealer.unseal(header.check);
+    } catch {
+      // Authentication failure — fall through
+    }
+    if (check !== CHECK_PLAINTEXT) throw new Error("Wrong passphrase for this snapshot");
+    return sealer;
+  }
+
+  seal(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return `${PREFIX}${[iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString("base64")).join(":")}`;
+  }
+
+  unseal(sealed: string): string {
+    if (!sealed.startsWith(PREFIX)) throw new Error("Value is not encrypted");
+    const [iv, tag, ciphertext] = sealed.slice(PREFIX.length).split(":").map((p) => Buffer.from(p, "base64"));
+    const decipher = createDecipheriv("aes-256-gcm", this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+  }
+}
+
+function deriveKey(passphrase: string, salt: string): Buffer {
+  if (!passphrase) throw new Error("Passphrase must not be empty");
+  return scryptSync(passphrase, Buffer.from(salt, "base64"), 32);
+}
@@ -0,0 +1,164 @@
+/**
+ * Access Policy
+ * Global read-only mode, tool allow/deny lists and per-workspace-label rules.
+ * Tools blocked globally are never registered; workspace rules are checked
+ * on each Railway request and surface as PolicyError.
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { callContext } from "./call-context.js";
+import { distinctLabels, normalizeLabel } from "./labels.js";
+import { describeZodError } from "./zod-errors.js";
+
+const ruleSchema = z
+  .object({
+    readOnly: z.boolean().optional(),
+    allowTools: z.array(z.string()).optional(),
+    denyTools: z.array(z.string()).optional(),
+  })
+  .strict();
+
+export const policySchema = ruleSchema
+  .extend({
+    /** Whether tools may return secret values in plaintext on request (default true) */
+    allowReveal: z.boolean().optional(),
+    /** Rules keyed by workspace token label (e.g. "prod", "sandbox") */
+    workspaces: z.record(ruleSchema).superRefine(distinctLabels).optional(),
+  })
+  .strict();
+
+export type PolicyConfig = z.infer<typeof policySchema>;
+type Rule = z.infer<typeof ruleSchema>;
+
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(`Policy: ${message}`);
+    this.name = "PolicyError";
+  }
+}
+
+export class Policy {
+  private config: PolicyConfig;
+  private workspaces: Map<string, Rule>;
+
+  constructor(config: PolicyConfig = {}) {
+    this.config = config;
+    this.workspaces = new Map(
+      Object.entries(config.workspaces || {}).map(([label, rule]) => [normalizeLabel(label), rule])
+    );
+  }
+
+  get readOnly(): boolean {
+    return this.config.readOnly === true;
+  }
+
+  /** Whether tools may honor an explicit request to reveal secret values */
+  get allowsReveal(): boolean {
+    return this.config.allowReveal !== false;
+  }
+
+  /** Whether a tool should be registered at all */
+  allowsTool(name: string, readOnlyTool: boolean): boolean {
+    if (this.readOnly && !readOnlyTool) return false;
+    return ruleAllows(this.config, name);
+  }
+
+  /**
+   * Check a Railway request made with the given token label on behalf of the
+   * current tool call. Throws PolicyError when the workspace forbids it.
+   */
+  checkRequest(label: string, mutation: boolean) {
+    const tool = callContext.getStore()?.tool;
+    const rule = this.workspaces.get(normalizeLabel(label));
+    if (mutation && (this.readOnly || rule?.readOnly)) {
+      throw new PolicyError(
+        `workspace "${label}" is read-only${tool ? ` — ${tool} cannot change it` : ""}`
+      );
+    }
+    if (tool && rule && !ruleAllows(rule, tool)) {
+      throw new PolicyError(`tool ${tool} is not allowed for workspace "${label}"`);
+    }
+  }
+
+  /** One-line summary for the startup log */
+  describe(): string {
+    const parts: string[] = [];
+    if (this.readOnly) parts.push("read-only");
+    if (this.config.allowTools) parts.push(`allow ${this.config.allowTools.join(",")}`);
+    if (this.config.denyTools?.length) parts.push(`deny ${this.config.denyTools.join(",")}`);
+    if (!this.allowsReveal) parts.push("no secret reveal");
+    for (const [label, rule] of this.workspaces) {
+      const bits = [
+        rule.readOnly ? "read-only" : undefined,
+        rule.allowTools ? `allow ${rule.allowTools.join(",")}` : undefined,
+        rule.denyTools?.length ? `deny ${rule.denyTools.join(",")}` : undefined,
+      ].filter(Boolean);
+      if (bits.length) parts.push(`${label}: ${bits.join(" ")}`);
+    }
+    return parts.length ? parts.join("; ") : "unrestricted";
+  }
+}
+
+function ruleAllows(rule: Rule, tool: string): boolean {
+  if (rule.denyTools?.includes(tool)) return false;
+  if (rule.allowTools && !rule.allowTools.includes(tool)) return false;
+  return true;
+}
+
+/**
+ * Workspace rules from `over` laid over `base` label by label (keys compared
+ * as normalized token labels), so a rule for one workspace doesn't drop the
+ * others or the fields it leaves unset
+ */
+function mergeWorkspaces(base: PolicyConfig["workspaces"], over: PolicyConfig["workspaces"]): PolicyConfig["workspaces"] {
+  if (!base || !over) return over ?? base;
+  const out = { ...base };
+  for (const [label, rule] of Object.entries(over)) {
+    const existing = Object.keys(out).find((key) => normalizeLabel(key) === normalizeLabel(label)) ?? label;
+    out[existing] = { ...out[existing], ...rule };
+  }
+  return out;
+}
+
+const list = (raw: string | undefined) =>
+  raw ? raw.split(",").map((t) => t.trim()).filter(Boolean) : undefined;
+
+/**
+ * Build the policy from `base` (the config file's policy), overridden by
+ * RAILWAY_MCP_POLICY_FILE (JSON matching policySchema) and then the shorthand
+ * env vars RAILWAY_READ_ONLY, RAILWAY_ALLOW_TOOLS, RAILWAY_DENY_TOOLS,
+ * RAILWAY_READ_ONLY_WORKSPACES and RAILWAY_ALLOW_REVEAL.
+ */
+export function policyFromEnv(env: NodeJS.ProcessEnv, base: PolicyConfig = {}): PolicyConfig {
+  let config: PolicyConfig = { ...base };
+
+  const file = env.RAILWAY_MCP_POLICY_FILE;
+  if (file) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(file, "utf8"));
+    } catch (e) {
+      throw new Error(
+        `Could not read policy file ${file}: ${e instanceof Error ? e.message : e}`
+      );
+    }
+    const parsed = policySchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid policy file ${file}: ${describeZodError(parsed.error)}`);
+    }
+    config = { ...config, ...parsed.data, workspaces: mergeWorkspaces(config.workspaces, parsed.data.workspaces) };
+  }
+
+  const flag = (raw: string | undefined) =>
+    raw === undefined || raw === "" ? undefined : ["1", "true", "yes"].includes(raw.toLowerCase());
+  config.readOnly = flag(env.RAILWAY_READ_ONLY) ?? config.readOnly;
+  config.allowReveal = flag(env.RAILWAY_ALLOW_REVEAL) ?? config.allowReveal;
+  config.allowTools = list(env.RAILWAY_ALLOW_TOOLS) ?? config.allowTools;
+  config.denyTools = list(env.RAILWAY_DENY_TOOLS) ?? config.denyTools;
+  for (const label of list(env.RAILWAY_READ_ONLY_WORKSPACES) || []) {
+    config.workspaces = mergeWorkspaces(config.workspaces, { [label]: { readOnly: true } });
+  }
+
+  return config;
+}
@@ -0,0 +1,370 @@
+/**
+ * Project Snapshot
+ * Captures a project's topology — environments, services and sources,
+ * variables, domains, volumes and latest deployments — as one JSON document,
+ * and recreates it as a new project, possibly under another workspace token.
+ * Resources are referenced by name so the document is portable.
+ */
+
+import { z } from "zod";
+import type { FileAccess } from "./file-access.js";
+import type { MultiRailwayClient } from "./railway-client.js";
+import { summarizeProject } from "./project-summary.js";
+import { keyMatcher } from "./variable-diff.js";
+import { EncryptionHeader, Sealer } from "./passphrase-crypto.js";
+import { describeZodError } from "./zod-errors.js";
+
+export const SNAPSHOT_FORMAT = "railway-mcp-snapshot";
+
+/** Variables Railway injects itself; they are never exported */
+const isSystemVariable = keyMatcher(["RAILWAY_*"]);
+
+const sourceSchema = z.object({ repo: z.string().nullish(), image: z.string().nullish() }).nullable();
+
+const snapshotSchema = z.object({
+  format: z.literal(SNAPSHOT_FORMAT),
+  version: z.literal(1),
+  exportedAt: z.string(),
+  origin: z.object({ projectId: z.string(), workspace: z.string() }),
+  project: z.object({ name: z.string(), description: z.string().nullish() }),
+  environments: z.array(z.string()),
+  services: z.array(
+    z.object({
+      name: z.string(),
+      /** Source per environment name */
+      sources: z.record(sourceSchema),
+    })
+  ),
+  variables: z.array(
+    z.object({
+      /** null for shared variables */
+      service: z.string().nullable(),
+      environment: z.string(),
+      /** Encrypted value, or null when exported without a passphrase */
+      values: z.record(z.string().nullable()),
+    })
+  ),
+  domains: z.array(
+    z.object({
+      service: z.string(),
+      environment: z.string(),
+      kind: z.enum(["service", "custom"]),
+      domain: z.string(),
+    })
+  ),
+  volumes: z.array(
+    z.object({
+      name: z.string(),
+      service: z.string().nullable(),
+      environment: z.string(),
+      mountPath: z.string(),
+    })
+  ),
+  deployments: z.array(
+    z.object({
+      service: z.string(),
+      environment: z.string(),
+      id: z.string(),
+      status: z.string(),
+      createdAt: z.string(),
+      meta: z.unknown().optional(),
+    })
+  ),
+  encryption: z
+    .object({
+      cipher: z.literal("aes-256-gcm"),
+      kdf: z.literal("scrypt"),
+      salt: z.string(),
+      check: z.string(),
+    })
+    .optional(),
+});
+
+export type ProjectSnapshot = z.infer<typeof snapshotSchema>;
+
+// ─── Export ──────────────────────────────────────────────────
+
+/**
+ * Snapshot a project. Variable names are always included; values only when
+ * a passphrase is given, and then only encrypted.
+ */
+export async function exportProject(
+  railway: MultiRailwayClient,
+  projectId: string,
+  passphrase?: string
+): Promise<ProjectSnapshot> {
+  const result = (await railway.getProject(projectId)) as any;
+  if (!result?.project) throw new Error(`Project ${projectId} not found`);
+  const project = summarizeProject(result.project);
+  const envName = new Map(project.environments.map((e) => [e.id, e.name]));
+  const serviceName = new Map(project.services.map((s) => [s.id, s.name]));
+
+  const encryption = passphrase ? Sealer.create(passphrase) : undefined;
+
+  const variables: ProjectSnapshot["variables"] = [];
+  const deployments: ProjectSnapshot["deployments"] = [];
+  for (const env of project.environments) {
+    const scopes: { id?: string; name: string | null }[] = [
+      { name: null },
+      ...project.services.map((s) => ({ id: s.id, name: s.name })),
+    ];
+    for (const scope of scopes) {
+      // Unrendered, so ${{ref}} values stay references after import
+      const vars = (await railway.getVariables(projectId, env.id, scope.id, true)) as any;
+      const values: Record<string, string | null> = {};
+      for (const [key, value] of Object.entries<string>(vars?.variables || {})) {
+        if (!isSystemVariable(key)) values[key] = encryption ? encryption.sealer.seal(value) : null;
+      }
+      if (Object.keys(values).length > 0) {
+        variables.push({ service: scope.name, environment: env.name, values });
+      }
+    }
+
+    for (const service of project.services) {
+      const latest = await railway.listDeployments(projectId, service.id, env.id, { first: 1 });
+      const deployment = latest.nodes[0] as any;
+      if (deployment) {
+        deployments.push({
+          service: service.name,
+          environment: env.name,
+          id: deployment.id,
+          status: deployment.status,
+          createdAt: deployment.createdAt,
+          meta: deployment.meta ?? undefined,
+        });
+      }
+    }
+  }
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    origin: { projectId, workspace: await railway.workspaceOf(projectId) },
+    project: { name: project.name, description: result.project.description ?? null },
+    environments: project.environments.map((e) => e.name),
+    services: project.services.map((s) => ({
+      name: s.name,
+      sources: Object.fromEntries(
+        s.instances.map((i) => [envName.get(i.environmentId) ?? i.environmentId, i.source])
+      ),
+    })),
+    variables,
+    domains: project.services.flatMap((s) =>
+      s.domains.map((d) => ({
+        service: s.name,
+        environment: envName.get(d.environmentId) ?? d.environmentId,
+        kind: d.kind,
+        domain: d.domain,
+      }))
+    ),
+    volumes: project.volumes.flatMap((v) =>
+      v.instances.map((i) => ({
+        name: v.name,
+        service: i.serviceId ? serviceName.get(i.serviceId) ?? i.serviceId : null,
+        environment: envName.get(i.environmentId) ?? i.environmentId,
+        mountPath: i.mountPath,
+      }))
+    ),
+    deployments,
+    encryption: encryption?.header,
+  };
+}
+
+// ─── Import ──────────────────────────────────────────────────
+
+/**
+ * Parse snapshot JSON text or the file at `snapshotPath`, which must be
+ * inside the directory `files` allows. Errors about a file's contents give
+ * field paths, never the text itself.
+ */
+export function loadSnapshot(input: { snapshot?: string; snapshotPath?: string }, files: FileAccess): ProjectSnapshot {
+  const text = input.snapshotPath ? files.read(input.snapshotPath) : input.snapshot;
+  if (!text) throw new Error("Provide either snapshot (JSON text) or snapshotPath");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    // JSON.parse quotes the text around the error, so a file's error stays generic
+    if (input.snapshotPath) throw new Error(`Snapshot file ${input.snapshotPath} is not valid JSON`);
+    throw new Error(`Snapshot is not valid JSON: ${e instanceof Error ? e.message : e}`);
+  }
+  const parsed = snapshotSchema.safeParse(raw);
+  if (!parsed.success) {
+    const where = input.snapshotPath ? ` in ${input.snapshotPath}` : "";
+    throw new Error(`Invalid snapshot${where}: ${describeZodError(parsed.error, { quote: !input.snapshotPath })}`);
+  }
+  return parsed.data;
+}
+
+export interface ImportOptions {
+  /** Name for the new project (default: the snapshot's name) */
+  name?: string;
+  /** Token label to create the project under (default: the first token) */
+  workspace?: string;
+  /** Needed to restore values of a snapshot exported with one */
+  passphrase?: string;
+  copyDomains?: boolean;
+  /** Custom domains can only be attached to one project, so they are opt-in */
+  copyCustomDomains?: boolean;
+  copyVolumes?: boolean;
+}
+
+export interface ImportStep {
+  resource: string;
+  status: "ok" | "failed" | "skipped";
+  detail?: string;
+}
+
+export async function importProject(
+  railway: MultiRailwayClient,
+  snapshot: ProjectSnapshot,
+  options: ImportOptions = {}
+) {
+  // Fail before creating anything if the values can't be decrypted
+  let sealer: Sealer | undefined;
+  if (snapshot.encryption) {
+    if (!options.passphrase) {
+      throw new Error("This snapshot has encrypted variable values; pass the passphrase used to export it");
+    }
+    sealer = Sealer.open(options.passphrase, snapshot.encryption as EncryptionHeader);
+  }
+
+  const name = options.name || snapshot.project.name;
+  const created = (await railway.createProject(name, snapshot.project.description ?? undefined, options.workspace)) as any;
+  const projectId: string | undefined = created?.projectCreate?.id;
+  if (!projectId) throw new Error("Railway did not return the new project's ID");
+
+  const steps: ImportStep[] = [];
+  const attempt = async (resource: string, fn: () => Promise<string | undefined>) => {
+    try {
+      steps.push({ resource, status: "ok", detail: await fn() });
+    } catch (e) {
+      steps.push({ resource, status: "failed", detail: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  // A new project comes with a default environment
+  const envIds = new Map<string, string>();
+  const initial = (await railway.getProject(projectId)) as any;
+  for (const e of summarizeProject(initial.project).environments) envIds.set(e.name, e.id);
+
+  for (const env of snapshot.environments) {
+    if (envIds.has(env)) continue;
+    await attempt(`environment: ${env}`, async () => {
+      const result = (await railway.createEnvironment(projectId, env)) as any;
+      const id = result?.environmentCreate?.id;
+      if (!id) throw new Error("Railway did not return the environment's ID");
+      envIds.set(env, id);
+      return undefined;
+    });
+  }
+
+  const serviceIds = new Map<string, string>();
+  const present = (source: z.infer<typeof sourceSchema>) =>
+    source?.repo ? { repo: source.repo } : source?.image ? { image: source.image } : undefined;
+  for (const service of snapshot.services) {
+    const sources = Object.entries(service.sources);
+    // Create with the first source found, then fix up environments that differ
+    const initialSource = sources.map(([, s]) => present(s)).find(Boolean);
+    await attempt(`service: ${service.name}`, async () => {
+      const result = (await railway.createService(projectId, service.name, initialSource)) as any;
+      const id = result?.serviceCreate?.id;
+      if (!id) throw new Error("Railway did not return the service's ID");
+      serviceIds.set(service.name, id);
+      return initialSource ? Object.values(initialSource)[0] : "no source";
+    });
+    const serviceId = serviceIds.get(service.name);
+    if (!serviceId) continue;
+    for (const [env, source] of sources) {
+      const wanted = present(source);
+      const envId = envIds.get(env);
+      if (!wanted || !envId || JSON.stringify(wanted) === JSON.stringify(initialSource)) continue;
+      await attempt(`source: ${service.name}@${env}`, async () => {
+        await railway.updateServiceSource(serviceId, envId, wanted);
+        return Object.values(wanted)[0];
+      });
+    }
+  }
+
+  // Shared variables first, so service references to them resolve
+  const scopes = [...snapshot.variables].sort((a, b) => Number(a.service !== null) - Number(b.service !== null));
+  for (const scope of scopes) {
+    const resource = `variables: ${scope.service ?? "shared"}@${scope.environment}`;
+    const envId = envIds.get(scope.environment);
+    const serviceId = scope.service === null ? undefined : serviceIds.get(scope.service);
+    if (!envId || (scope.service !== null && !serviceId)) {
+      steps.push({ resource, status: "skipped", detail: "environment or service was not created" });
+      continue;
+    }
+    if (!sealer) {
+      steps.push({ resource, status: "skipped", detail: `snapshot has names only: ${Object.keys(scope.values).join(", ")}` });
+      continue;
+    }
+    await attempt(resource, async () => {
+      const values = Object.fromEntries(
+        Object.entries(scope.values)
+          .filter((entry): entry is [string, string] => entry[1] !== null)
+          .map(([key, value]) => [key, sealer!.unseal(value)])
+      );
+      await railway.upsertVariables(projectId, envId, serviceId, values);
+      return `${Object.keys(values).length} variable(s)`;
+    });
+  }
+
+  for (const domain of snapshot.domains) {
+    const resource = `domain: ${domain.service}@${domain.environment} (${domain.domain})`;
+    const envId = envIds.get(domain.environment);
+    const serviceId = serviceIds.get(domain.service);
+    if (!envId || !serviceId) {
+      steps.push({ resource, status: "skipped", detail: "environment or service was not created" });
+    } else if (domain.kind === "custom") {
+      if (!options.copyCustomDomains) {
+        steps.push({ resource, status: "skipped", detail: "copyCustomDomains is false" });
+      } else {
+        await attempt(resource, async () => {
+          await railway.createCustomDomain(serviceId, envId, domain.domain);
+          return "update DNS to point at the new service";
+        });
+      }
+    } else if (options.copyDomains === false) {
+      steps.push({ resource, status: "skipped", detail: "copyDomains is false" });
+    } else {
+      await attempt(resource, async () => {
+        const result = (await railway.createServiceDomain(serviceId, envId)) as any;
+        return result?.serviceDomainCreate?.domain;
+      });
+    }
+  }
+
+  for (const volume of snapshot.volumes) {
+    const resource = `volume: ${volume.service ?? "unattached"}@${volume.environment} ${volume.mountPath}`;
+    const envId = envIds.get(volume.environment);
+    const serviceId = volume.service ? serviceIds.get(volume.service) : undefined;
+    if (options.copyVolumes === false) {
+      steps.push({ resource, status: "skipped", detail: "copyVolumes is false" });
+    } else if (!envId || !serviceId) {
+      steps.push({ resource, status: "skipped", detail: "volume is not attached to a created service" });
+    } else {
+      await attempt(resource, async () => {
+        const result = (await railway.createVolume(projectId, envId, serviceId, volume.mountPath)) as any;
+        return `new volume ${result?.volumeCreate?.name ?? result?.volumeCreate?.id} (data is not copied)`;
+      });
+    }
+  }
+
+  const extraEnvironments = [...envIds.keys()].filter((e) => !snapshot.environments.includes(e));
+  return {
+    project: { id: projectId, name, workspace: await railway.workspaceOf(projectId) },
+    origin: snapshot.origin,
+    succeeded: steps.every((s) => s.status !== "failed"),
+    steps,
+    notes: [
+      ...extraEnvironments.map((e) => `Environment "${e}" was created by Railway with the project and is not in the snapshot`),
+      ...(snapshot.deployments.length > 0
+        ? ["Deployments are not replayed; services with a source deploy on their own, others need deploy_service"]
+        : []),
+    ],
+  };
+}
@@ -0,0 +1,481 @@
+/**
+ * Project Spec
+ * A declarative (JSON or YAML) description of a project's environments,
+ * services, variables, domains and volumes, with a Terraform-style plan
+ * against live state and an apply that runs the minimal set of mutations
+ * in dependency order.
+ */
+
+import { parse as parseYaml, YAMLError } from "yaml";
+import { z } from "zod";
+import type { FileAccess } from "./file-access.js";
+import type { MultiRailwayClient } from "./railway-client.js";
+import { summarizeProject, ProjectSummary } from "./project-summary.js";
+import { redactValue } from "./redact.js";
+import { keyMatcher } from "./variable-diff.js";
+import { describeZodError } from "./zod-errors.js";
+
+// ─── Spec format ─────────────────────────────────────────────
+
+const sourceSchema = z.union([
+  z.object({ repo: z.string() }).strict(),
+  z.object({ image: z.string() }).strict(),
+]);
+
+const volumeSchema = z.object({ mountPath: z.string() }).strict();
+
+const serviceEnvironmentSchema = z
+  .object({
+    variables: z.record(z.string()).optional(),
+    /** Railway-provided *.up.railway.app domain; false removes it */
+    domain: z.boolean().optional(),
+    customDomains: z.array(z.string()).optional(),
+    volume: volumeSchema.optional(),
+  })
+  .strict();
+
+const serviceSchema = z
+  .object({
+    source: sourceSchema.optional(),
+    /** Variables set in every environment (per-environment values win) */
+    variables: z.record(z.string()).optional(),
+    domain: z.boolean().optional(),
+    volume: volumeSchema.optional(),
+    environments: z.record(serviceEnvironmentSchema).optional(),
+  })
+  .strict();
+
+export const projectSpecSchema = z
+  .object({
+    project: z.string().min(1),
+    description: z.string().optional(),
+    /** Token label that owns (or should own) the project */
+    workspace: z.string().optional(),
+    environments: z.array(z.string()).min(1).default(["production"]),
+    /** Shared variables per environment; omit to leave shared variables unmanaged */
+    sharedVariables: z.record(z.record(z.string())).optional(),
+    services: z.record(serviceSchema).default({}),
+    /** Delete environments, services and variables that the spec doesn't mention */
+    prune: z.boolean().default(false),
+  })
+  .strict()
+  .superRefine((spec, ctx) => {
+    const known = new Set(spec.environments);
+    for (const env of Object.keys(spec.sharedVariables || {})) {
+      if (!known.has(env)) {
+        ctx.addIssue({ code: "custom", path: ["sharedVariables", env], message: `unknown environment "${env}"` });
+      }
+    }
+    for (const [name, service] of Object.entries(spec.services)) {
+      for (const env of Object.keys(service.environments || {})) {
+        if (!known.has(env)) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["services", name, "environments", env],
+            message: `unknown environment "${env}"`,
+          });
+        }
+      }
+    }
+  });
+
+export type ProjectSpec = z.infer<typeof projectSpecSchema>;
+type Source = z.infer<typeof sourceSchema>;
+
+/**
+ * Parse spec text (YAML, which includes JSON) or the file at `specPath`,
+ * which must be inside the directory `files` allows. Errors about a file's
+ * contents give positions and field paths, never the text itself.
+ */
+export function loadSpec(input: { spec?: string; specPath?: string }, files: FileAccess): ProjectSpec {
+  const text = input.specPath ? files.read(input.specPath) : input.spec;
+  if (!text) throw new Error("Provide either spec (JSON/YAML text) or specPath");
+
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (e) {
+    if (!input.specPath) throw new Error(`Spec is not valid JSON/YAML: ${e instanceof Error ? e.message : e}`);
+    const at = e instanceof YAMLError && e.linePos ? ` (line ${e.linePos[0].line}, column ${e.linePos[0].col})` : "";
+    throw new Error(`Spec file ${input.specPath} is not valid JSON/YAML${at}`);
+  }
+  const parsed = projectSpecSchema.safeParse(raw);
+  if (!parsed.success) {
+    const where = input.specPath ? ` in ${input.specPath}` : "";
+    throw new Error(`Invalid spec${where}: ${describeZodError(parsed.error, { quote: !input.specPath })}`);
+  }
+  return parsed.data;
+}
+
+// ─── Plan ────────────────────────────────────────────────────
+
+export type PlanAction = { op: "create" | "update" | "delete"; address: string; detail?: string } & (
+  | { kind: "project" }
+  | { kind: "environment"; environment: string; id?: string }
+  | { kind: "service"; service: string; id?: string; source?: Source }
+  | { kind: "source"; service: string; environment: string; source: Source }
+  | { kind: "variable"; service?: string; environment: string; key: string; value?: string }
+  | { kind: "domain"; service: string; environment: string }
+  | { kind: "custom-domain"; service: string; environment: string; domain: string }
+  | { kind: "volume"; service: string; environment: string; mountPath: string }
+);
+
+export interface Plan {
+  project: { id?: string; name: string; workspace?: string };
+  actions: PlanAction[];
+  /** Drift the spec describes but this server can't change */
+  notes: string[];
+}
+
+/** Variables Railway injects itself; never managed */
+const isSystemVariable = keyMatcher(["RAILWAY_*"]);
+
+const describeSource = (source: { repo?: string; image?: string } | null | undefined) =>
+  source?.repo ? `repo ${source.repo}` : source?.image ? `image ${source.image}` : "none";
+
+const sameSource = (a: Source, b: { repo?: string; image?: string } | null) =>
+  "repo" in a ? a.repo === b?.repo : a.image === b?.image;
+
+async function findProject(railway: MultiRailwayClient, spec: ProjectSpec) {
+  const { workspaces } = await railway.listAllProjects();
+  const matches = workspaces.flatMap((ws) =>
+    ws.projects
+      .filter((p: any) => p.name === spec.project)
+      .filter(() => !spec.workspace || ws.workspace.toLowerCase() === spec.workspace.toLowerCase())
+      .map((p: any) => ({ id: p.id as string, workspace: ws.workspace }))
+  );
+  // The same project can be visible to several tokens
+  const unique = [...new Map(matches.map((m) => [m.id, m])).values()];
+  if (unique.length > 1) {
+    throw new Error(
+      `Several projects are named "${spec.project}": ${unique.map((m) => `${m.id} (${m.workspace})`).join(", ")}. Set workspace in the spec.`
+    );
+  }
+  return unique[0];
+}
+
+export async function planProject(railway: MultiRailwayClient, spec: ProjectSpec): Promise<Plan> {
+  const found = await findProject(railway, spec);
+  const plan: Plan = {
+    project: { id: found?.id, name: spec.project, workspace: found?.workspace ?? spec.workspace },
+    actions: [],
+    notes: [],
+  };
+  const add = (action: PlanAction) => plan.actions.push(action);
+
+  let live: ProjectSummary | undefined;
+  if (found) {
+    const result = (await railway.getProject(found.id)) as any;
+    live = summarizeProject(result.project);
+  } else {
+    add({ op: "create", kind: "project", address: `project "${spec.project}"` });
+  }
+
+  const envIds = new Map(live?.environments.map((e) => [e.name, e.id]));
+  const serviceIds = new Map(live?.services.map((s) => [s.name, s.id]));
+
+  // Environments and services
+  for (const env of spec.environments) {
+    if (!envIds.has(env)) add({ op: "create", kind: "environment", environment: env, address: `environment "${env}"` });
+  }
+  for (const [name, service] of Object.entries(spec.services)) {
+    if (!serviceIds.has(name)) {
+      add({
+        op: "create",
+        kind: "service",
+        service: name,
+        source: service.source,
+        address: `service "${name}"`,
+        detail: service.source ? describeSource(service.source) : undefined,
+      });
+    }
+  }
+  if (spec.prune && live) {
+    for (const env of live.environments) {
+      if (!spec.environments.includes(env.name)) {
+        add({ op: "delete", kind: "environment", environment: env.name, id: env.id, address: `environment "${env.name}"` });
+      }
+    }
+    for (const service of live.services) {
+      if (!(service.name in spec.services)) {
+        add({ op: "delete", kind: "service", service: service.name, id: service.id, address: `service "${service.name}"` });
+      }
+    }
+  }
+
+  // Variables — compared unrendered so ${{ref}} values match what is stored
+  const liveVariables = async (environment: string, service?: string) => {
+    const envId = envIds.get(environment);
+    const serviceId = service ? serviceIds.get(service) : undefined;
+    if (!live || !envId || (service && !serviceId)) return {};
+    const result = (await railway.getVariables(live.id, envId, serviceId, true)) as any;
+    return (result?.variables || {}) as Record<string, string>;
+  };
+  const diffScope = async (environment: string, desired: Record<string, string>, service?: string) => {
+    const current = await liveVariables(environment, service);
+    const scope = `${service ?? "shared"}@${environment}`;
+    for (const [key, value] of Object.entries(desired)) {
+      if (!(key in current)) {
+        add({ op: "create", kind: "variable", service, environment, key, value, address: `variable ${scope} ${key}`, detail: redactValue(key, value) });
+      } else if (current[key] !== value) {
+        add({
+          op: "update",
+          kind: "variable",
+          service,
+          environment,
+          key,
+          value,
+          address: `variable ${scope} ${key}`,
+          detail: `${redactValue(key, current[key])} → ${redactValue(key, value)}`,
+        });
+      }
+    }
+    if (spec.prune) {
+      for (const key of Object.keys(current)) {
+        if (!(key in desired) && !isSystemVariable(key)) {
+          add({ op: "delete", kind: "variable", service, environment, key, address: `variable ${scope} ${key}` });
+        }
+      }
+    }
+  };
+
+  for (const env of spec.environments) {
+    if (spec.sharedVariables) await diffScope(env, spec.sharedVariables[env] || {});
+  }
+
+  for (const [name, service] of Object.entries(spec.services)) {
+    const liveService = live?.services.find((s) => s.name === name);
+    for (const env of spec.environments) {
+      const envSpec = service.environments?.[env] || {};
+      const envId = envIds.get(env);
+      const where = `${name}@${env}`;
+
+      await diffScope(env, { ...service.variables, ...envSpec.variables }, name);
+
+      // Source drift only matters for instances that already exist
+      const instance = liveService?.instances.find((i) => i.environmentId === envId);
+      if (service.source && instance && !sameSource(service.source, instance.source)) {
+        add({
+          op: "update",
+          kind: "source",
+          service: name,
+          environment: env,
+          source: service.source,
+          address: `service "${name}" source in ${env}`,
+          detail: `${describeSource(instance.source)} → ${describeSource(service.source)}`,
+        });
+      }
+
+      const domains = liveService?.domains.filter((d) => d.environmentId === envId) || [];
+      const wantDomain = envSpec.domain ?? service.domain;
+      const hasDomain = domains.some((d) => d.kind === "service");
+      if (wantDomain === true && !hasDomain) {
+        add({ op: "create", kind: "domain", service: name, environment: env, address: `domain ${where}`, detail: "railway-provided" });
+      } else if (wantDomain === false && hasDomain) {
+        add({ op: "delete", kind: "domain", service: name, environment: env, address: `domain ${where}` });
+      }
+
+      if (envSpec.customDomains) {
+        for (const domain of envSpec.customDomains) {
+          if (!domains.some((d) => d.kind === "custom" && d.domain === domain)) {
+            add({ op: "create", kind: "custom-domain", service: name, environment: env, domain, address: `custom domain ${where} ${domain}` });
+          }
+        }
+        for (const d of domains.filter((d) => d.kind === "custom" && !envSpec.customDomains!.includes(d.domain))) {
+          plan.notes.push(`custom domain ${where} ${d.domain} is not in the spec; remove it in the Railway dashboard`);
+        }
+      }
+
+      const volume = envSpec.volume ?? service.volume;
+      if (volume) {
+        const mounts = (live?.volumes || []).flatMap((v) =>
+          v.instances.filter((i) => i.environmentId === envId && i.serviceId === liveService?.id)
+        );
+        if (!mounts.some((m) => m.mountPath === volume.mountPath)) {
+          add({ op: "create", kind: "volume", service: name, environment: env, mountPath: volume.mountPath, address: `volume ${where} ${volume.mountPath}` });
+        }
+        for (const m of mounts.filter((m) => m.mountPath !== volume.mountPath)) {
+          plan.notes.push(`volume ${where} is mounted at ${m.mountPath}, not ${volume.mountPath}; volumes are never moved or deleted automatically`);
+        }
+      }
+    }
+  }
+
+  return plan;
+}
+
+const SYMBOLS = { create: "+", update: "~", delete: "-" } as const;
+
+/** Terraform-style text rendering of a plan (values already masked) */
+export function renderPlan(plan: Plan): string {
+  const lines = [
+    `Plan for project "${plan.project.name}"${plan.project.workspace ? ` (workspace ${plan.project.workspace})` : ""}:`,
+    "",
+  ];
+  for (const a of plan.actions) {
+    lines.push(`  ${SYMBOLS[a.op]} ${a.address}${a.detail ? `: ${a.detail}` : ""}`);
+  }
+  if (plan.actions.length === 0) lines.push("  No changes. Live state matches the spec.");
+  const count = (op: PlanAction["op"]) => plan.actions.filter((a) => a.op === op).length;
+  lines.push("", `Plan: ${count("create")} to create, ${count("update")} to update, ${count("delete")} to delete.`);
+  for (const note of plan.notes) lines.push(`Note: ${note}`);
+  return lines.join("\n");
+}
+
+// ─── Apply ───────────────────────────────────────────────────
+
+export interface ApplyResult {
+  address: string;
+  op: PlanAction["op"];
+  status: "ok" | "failed";
+  error?: string;
+}
+
+/** Order in which action kinds run; deletions go last, children before parents */
+const APPLY_ORDER: [PlanAction["op"], PlanAction["kind"]][] = [
+  ["create", "project"],
+  ["create", "environment"],
+  ["create", "service"],
+  ["update", "source"],
+  ["create", "variable"],
+  ["update", "variable"],
+  ["create", "domain"],
+  ["create", "custom-domain"],
+  ["create", "volume"],
+  ["delete", "variable"],
+  ["delete", "domain"],
+  ["delete", "service"],
+  ["delete", "environment"],
+];
+
+export async function applyPlan(railway: MultiRailwayClient, spec: ProjectSpec, plan: Plan) {
+  const results: ApplyResult[] = [];
+  let projectId = plan.project.id;
+  const envIds = new Map<string, string>();
+  const serviceIds = new Map<string, string>();
+
+  const refreshIds = async () => {
+    if (!projectId) return;
+    const result = (await railway.getProject(projectId)) as any;
+    const live = summarizeProject(result.project);
+    for (const e of live.environments) envIds.set(e.name, e.id);
+    for (const s of live.services) serviceIds.set(s.name, s.id);
+  };
+  await refreshIds();
+
+  const need = (map: Map<string, string>, name: string, what: string) => {
+    const id = map.get(name);
+    if (!id) throw new Error(`${what} "${name}" does not exist (was its creation skipped or did it fail?)`);
+    return id;
+  };
+  const record = async (action: PlanAction, fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+      results.push({ address: action.address, op: action.op, status: "ok" });
+    } catch (e) {
+      results.push({ address: action.address, op: action.op, status: "failed", error: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  for (const [op, kind] of APPLY_ORDER) {
+    const batch = plan.actions.filter((a) => a.op === op && a.kind === kind);
+    if (batch.length === 0) continue;
+
+    if (kind === "variable" && op !== "delete") {
+      // One upsert per scope instead of one per key
+      const scopes = new Map<string, Extract<PlanAction, { kind: "variable" }>[]>();
+      for (const a of batch as Extract<PlanAction, { kind: "variable" }>[]) {
+        const key = `${a.service ?? ""}@${a.environment}`;
+        scopes.set(key, [...(scopes.get(key) || []), a]);
+      }
+      for (const actions of scopes.values()) {
+        const { service, environment } = actions[0];
+        try {
+          const envId = need(envIds, environment, "Environment");
+          const serviceId = service ? need(serviceIds, service, "Service") : undefined;
+          await railway.upsertVariables(
+            projectId!,
+            envId,
+            serviceId,
+            Object.fromEntries(actions.map((a) => [a.key, a.value!]))
+          );
+          for (const a of actions) results.push({ address: a.address, op: a.op, status: "ok" });
+        } catch (e) {
+          const error = e instanceof Error ? e.message : String(e);
+          for (const a of actions) results.push({ address: a.address, op: a.op, status: "failed", error });
+        }
+      }
+      continue;
+    }
+
+    for (const action of batch) {
+      await record(action, async () => {
+        switch (action.kind) {
+          case "project": {
+            const created = (await railway.createProject(spec.project, spec.description, spec.workspace)) as any;
+            projectId = created?.projectCreate?.id;
+            if (!projectId) throw new Error("Railway did not return the new project's ID");
+            // A new project comes with a default environment
+            await refreshIds();
+            return;
+          }
+          case "environment":
+            if (action.op === "delete") return railway.deleteEnvironment(action.id!);
+            if (envIds.has(action.environment)) return; // Created along with the project
+            {
+              const created = (await railway.createEnvironment(projectId!, action.environment)) as any;
+              envIds.set(action.environment, created?.environmentCreate?.id);
+            }
+            return;
+          case "service":
+            if (action.op === "delete") return railway.deleteService(action.id!);
+            {
+              const created = (await railway.createService(projectId!, action.service, action.source)) as any;
+              serviceIds.set(action.service, created?.serviceCreate?.id);
+            }
+            return;
+          case "source":
+            return railway.updateServiceSource(
+              need(serviceIds, action.service, "Service"),
+              need(envIds, action.environment, "Environment"),
+              action.source
+            );
+          case "variable":
+            return railway.deleteVariable(
+              projectId!,
+              need(envIds, action.environment, "Environment"),
+              action.service ? need(serviceIds, action.service, "Service") : undefined,
+              action.key
+            );
+          case "domain": {
+            const serviceId = need(serviceIds, action.service, "Service");
+            const envId = need(envIds, action.environment, "Environment");
+            return action.op === "delete"
+              ? railway.deleteServiceDomain(envId, serviceId)
+              : railway.createServiceDomain(serviceId, envId);
+          }
+          case "custom-domain":
+            return railway.createCustomDomain(
+              need(serviceIds, action.service, "Service"),
+              need(envIds, action.environment, "Environment"),
+              action.domain
+            );
+          case "volume":
+            return railway.createVolume(
+              projectId!,
+              need(envIds, action.environment, "Environment"),
+              need(serviceIds, action.service, "Service"),
+              action.mountPath
+            );
+        }
+      });
+    }
+  }
+
+  return {
+    project: { id: projectId, name: spec.project },
+    succeeded: results.every((r) => r.status === "ok"),
+    results,
+    notes: plan.notes,
+  };
+}
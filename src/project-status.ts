@@ -0,0 +1,156 @@
+/**
+ * Project Status
+ * One row per service × environment with the latest deployment, its commit,
+ * domains and volume mounts — gathered with bounded concurrency, for one
+ * project or every project visible to any token.
+ */
+
+import type { MultiRailwayClient } from "./railway-client.js";
+import { summarizeProject } from "./project-summary.js";
+import { mapWithConcurrency } from "./concurrency.js";
+
+export interface StatusRow {
+  workspace: string;
+  project: string;
+  service: string;
+  environment: string;
+  status: string;
+  deployedAt: string | null;
+  /** Short commit hash, or the image for image-based services */
+  commit: string | null;
+  domains: string[];
+  volume: string | null;
+  /** Set when this row (or its whole project) couldn't be read */
+  error?: string;
+  ids: { projectId: string; serviceId?: string; environmentId?: string; deploymentId?: string };
+}
+
+const describe = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+export async function projectStatus(
+  railway: MultiRailwayClient,
+  options: { projectId?: string; concurrency?: number } = {}
+): Promise<StatusRow[]> {
+  const concurrency = options.concurrency ?? 4;
+
+  let projects: { id: string; workspace: string }[];
+  if (options.projectId) {
+    projects = [{ id: options.projectId, workspace: await railway.workspaceOf(options.projectId) }];
+  } else {
+    const { workspaces } = await railway.listAllProjects();
+    // A project visible to several tokens is reported once
+    const seen = new Map<string, string>();
+    for (const w of workspaces) for (const p of w.projects) if (!seen.has(p.id)) seen.set(p.id, w.workspace);
+    projects = [...seen].map(([id, workspace]) => ({ id, workspace }));
+  }
+
+  // First fan out over projects, then over every service × environment
+  const summaries = await mapWithConcurrency(projects, concurrency, async (p) => {
+    const result = (await railway.getProject(p.id)) as any;
+    if (!result?.project) throw new Error(`Project ${p.id} not found`);
+    return summarizeProject(result.project);
+  });
+
+  const rows: StatusRow[] = [];
+  const cells: { row: StatusRow; projectId: string; serviceId: string; environmentId: string }[] = [];
+  summaries.forEach((settled, i) => {
+    const { id: projectId, workspace } = projects[i];
+    if (settled.status === "rejected") {
+      rows.push({
+        workspace,
+        project: projectId,
+        service: "-",
+        environment: "-",
+        status: "ERROR",
+        deployedAt: null,
+        commit: null,
+        domains: [],
+        volume: null,
+        error: describe(settled.reason),
+        ids: { projectId },
+      });
+      return;
+    }
+    const project = settled.value;
+    const envName = new Map(project.environments.map((e) => [e.id, e.name]));
+    for (const service of project.services) {
+      for (const instance of service.instances) {
+        const environmentId = instance.environmentId;
+        const mounts = project.volumes.flatMap((v) =>
+          v.instances.filter((i) => i.serviceId === service.id && i.environmentId === environmentId)
+        );
+        const row: StatusRow = {
+          workspace,
+          project: project.name,
+          service: service.name,
+          environment: envName.get(environmentId) ?? environmentId,
+          status: "NO DEPLOYMENTS",
+          deployedAt: null,
+          commit: null,
+          domains: service.domains.filter((d) => d.environmentId === environmentId).map((d) => d.domain),
+          volume: mounts.map((m) => m.mountPath).join(", ") || null,
+          ids: { projectId, serviceId: service.id, environmentId },
+        };
+        rows.push(row);
+        cells.push({ row, projectId, serviceId: service.id, environmentId });
+      }
+    }
+  });
+
+  const latest = await mapWithConcurrency(cells, concurrency, (c) =>
+    railway.listDeployments(c.projectId, c.serviceId, c.environmentId, { first: 1 })
+  );
+  latest.forEach((settled, i) => {
+    const row = cells[i].row;
+    if (settled.status === "rejected") {
+      row.status = "ERROR";
+      row.error = describe(settled.reason);
+      return;
+    }
+    const deployment = settled.value.nodes[0] as any;
+    if (!deployment) return;
+    row.status = deployment.status;
+    row.deployedAt = deployment.createdAt;
+    row.commit = deployment.meta?.commitHash?.slice(0, 7) ?? deployment.meta?.image ?? null;
+    row.ids.deploymentId = deployment.id;
+  });
+
+  return rows;
+}
+
+/** Markdown table of status rows */
+export function renderStatusTable(rows: StatusRow[]): string {
+  if (rows.length === 0) return "No services found.";
+  const multiWorkspace = new Set(rows.map((r) => r.workspace)).size > 1;
+  const header = [
+    ...(multiWorkspace ? ["Workspace"] : []),
+    "Project",
+    "Service",
+    "Environment",
+    "Status",
+    "Deployed",
+    "Commit",
+    "Domains",
+    "Volume",
+  ];
+  const cell = (value: string | null | undefined) => (value ? value.replace(/\|/g, "\\|") : "-");
+  const lines = [`| ${header.join(" | ")} |`, `|${header.map(() => "---").join("|")}|`];
+  for (const r of rows) {
+    lines.push(
+      `| ${[
+        ...(multiWorkspace ? [r.workspace] : []),
+        r.project,
+        r.service,
+        r.environment,
+        r.error ? `${r.status}: ${r.error}` : r.status,
+        r.deployedAt,
+        r.commit,
+        r.domains.join(", "),
+        r.volume,
+      ]
+        .map(cell)
+        .join(" | ")} |`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,78 @@
+/**
+ * Project Summary
+ * Flattens the nested edges/node shape returned by getProject into plain
+ * arrays of environments, services (with sources and domains) and volumes.
+ */
+
+export interface DomainSummary {
+  id: string;
+  domain: string;
+  kind: "service" | "custom";
+  environmentId: string;
+}
+
+export interface ServiceSummary {
+  id: string;
+  name: string;
+  /** Per-environment source (repo or image) */
+  instances: { environmentId: string; source: { repo?: string; image?: string } | null }[];
+  domains: DomainSummary[];
+}
+
+export interface VolumeSummary {
+  id: string;
+  name: string;
+  instances: { id: string; environmentId: string; serviceId: string | null; mountPath: string }[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  environments: { id: string; name: string }[];
+  services: ServiceSummary[];
+  volumes: VolumeSummary[];
+}
+
+const nodes = (connection: any): any[] =>
+  (connection?.edges || []).map((e: any) => e.node).filter(Boolean);
+
+/** Summarize the `project` object of a getProject result */
+export function summarizeProject(project: any): ProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    environments: nodes(project.environments).map((e) => ({ id: e.id, name: e.name })),
+    services: nodes(project.services).map((s) => ({
+      id: s.id,
+      name: s.name,
+      instances: nodes(s.serviceInstances).map((instance) => ({
+        environmentId: instance.environmentId,
+        source: instance.source ?? null,
+      })),
+      domains: nodes(s.serviceInstances).flatMap((instance) => [
+        ...(instance.domains?.serviceDomains || []).map((d: any) => ({
+          id: d.id,
+          domain: d.domain,
+          kind: "service" as const,
+          environmentId: instance.environmentId,
+        })),
+        ...(instance.domains?.customDomains || []).map((d: any) => ({
+          id: d.id,
+          domain: d.domain,
+          kind: "custom" as const,
+          environmentId: instance.environmentId,
+        })),
+      ]),
+    })),
+    volumes: nodes(project.volumes).map((v) => ({
+      id: v.id,
+      name: v.name,
+      instances: nodes(v.volumeInstances).map((i) => ({
+        id: i.id,
+        environmentId: i.environmentId,
+        serviceId: i.serviceId ?? null,
+        mountPath: i.mountPath,
+      })),
+    })),
+  };
+}
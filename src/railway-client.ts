@@ -3,58 +3,385 @@
  * Wraps Railway's public GraphQL API at backboard.railway.com/graphql/v2
  */
 
+import { OwnershipIndex, ResourceKind } from "./ownership-index.js";
+import {
+  backoffDelay,
+  DEFAULT_RETRY_POLICY,
+  isMutation,
+  isRetryableStatus,
+  parseRetryAfter,
+  recordRetry,
+  RetryPolicy,
+  sleep,
+} from "./retry.js";
+import { subscribe } from "./subscription.js";
+import { PolicyError, type Policy } from "./policy.js";
+import { redactArgs, type AuditLog } from "./audit-log.js";
+import { callContext } from "./call-context.js";
+
 const RAILWAY_API_URL = "https://backboard.railway.com/graphql/v2";
+const RAILWAY_WS_URL = "wss://backboard.railway.com/graphql/v2";
+
+/**
+ * Account and team tokens authenticate as bearer tokens; project tokens use
+ * the Project-Access-Token header and only reach one project environment.
+ */
+export type TokenType = "account" | "team" | "project";
+
+/** The project and environment a project token is limited to */
+export interface ProjectScope {
+  projectId: string;
+  environmentId: string;
+}
+
+/** Outcome of the last check of a token against Railway */
+export interface TokenStatus {
+  /** False when Railway rejected the token; such tokens are disabled */
+  valid: boolean;
+  checkedAt: string;
+  type?: TokenType;
+  /** Account tokens: the user's name (or email) */
+  user?: string;
+  /**
+   * Workspaces the token can see (project tokens see none; team tokens see
+   * the ones their projects belong to)
+   */
+  workspaces: { id: string; name: string }[];
+  /** Project tokens: the project and environment they are limited to */
+  project?: { id: string; name: string; environmentId: string; environment: string };
+  /** Why the token was rejected, or why it couldn't be checked */
+  error?: string;
+}
+
+/** Railway refused the token outright (as opposed to being unreachable) */
+class TokenRejectedError extends Error {}
+
+/** Team tokens can't ask who they are; listing projects proves they work */
+const TEAM_PROBE = `query { projects(first: 1) { edges { node { id } } } }`;
+
+/**
+ * Nor can they list their workspaces (`me` is refused), so a team token's
+ * workspaces are the ones its projects belong to
+ */
+const TEAM_WORKSPACES = `
+  query ($first: Int, $after: String) {
+    projects(first: $first, after: $after) {
+      edges { node { workspace { id name } } }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+/** The distinct workspaces of `projects`, in the order first seen */
+function workspacesOf(projects: any[]): { id: string; name: string }[] {
+  const workspaces = new Map<string, { id: string; name: string }>();
+  for (const project of projects) {
+    const workspace = project?.workspace;
+    if (workspace?.id && !workspaces.has(workspace.id)) workspaces.set(workspace.id, { id: workspace.id, name: workspace.name });
+  }
+  return [...workspaces.values()];
+}
+
+/** A configured token; the type is detected on first use when not declared */
+export interface TokenConfig {
+  token: string;
+  label: string;
+  type?: TokenType;
+}
+
+export interface RailwayClientOptions {
+  /** Declared token type (detected when omitted) */
+  tokenType?: TokenType;
+  retryPolicy?: RetryPolicy;
+  /** GraphQL HTTP endpoint (defaults to Railway's public API) */
+  apiUrl?: string;
+  /** graphql-ws endpoint used for subscriptions */
+  wsUrl?: string;
+  /** Checked before every request made with this token */
+  policy?: Policy;
+}
+
+export interface PageOptions {
+  /** Page size (Railway's default when omitted) */
+  first?: number;
+  /** Resume after this cursor — the `endCursor` of a previous page */
+  after?: string;
+  /** Follow every page instead of returning just one */
+  all?: boolean;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+export interface Page<T> {
+  nodes: T[];
+  pageInfo: PageInfo;
+}
+
+/** A page holding everything there is, with no cursor to follow */
+const singlePage = <T>(nodes: T[]): Page<T> => ({ nodes, pageInfo: { hasNextPage: false, endCursor: null } });
+const emptyPage = <T>(): Page<T> => singlePage<T>([]);
+
+export interface LogLine {
+  timestamp: string;
+  message: string;
+  severity?: string;
+}
+
+export interface QueryOptions {
+  /** Allow retrying a mutation — only for mutations that are safe to apply twice */
+  retrySafe?: boolean;
+}
 
 export class RailwayClient {
   private token: string;
   public label: string;
-
-  constructor(token: string, label?: string) {
+  private retryPolicy: RetryPolicy;
+  private apiUrl: string;
+  private wsUrl: string;
+  private policy?: Policy;
+  private declaredType?: TokenType;
+  private knownType?: TokenType;
+  private detection?: Promise<TokenType>;
+  /** Set once this is known to be a project token */
+  public scope?: ProjectScope;
+  /** Result of the last validate() */
+  public status?: TokenStatus;
+
+  constructor(token: string, label?: string, options: RailwayClientOptions = {}) {
     this.token = token;
     this.label = label || "default";
-  }
-
+    this.declaredType = options.tokenType;
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.apiUrl = options.apiUrl ?? RAILWAY_API_URL;
+    this.wsUrl = options.wsUrl ?? RAILWAY_WS_URL;
+    this.policy = options.policy;
+  }
+
+  /**
+   * Run a GraphQL document. 429s, 5xx responses, network errors and timeouts
+   * are retried with jittered exponential backoff (honoring Retry-After), but
+   * mutations are only retried when the caller marks them retry-safe.
+   */
   async query<T = any>(
     query: string,
-    variables?: Record<string, any>
+    variables?: Record<string, any>,
+    options: QueryOptions = {}
   ): Promise<T> {
-    const response = await fetch(RAILWAY_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.token}`,
-      },
-      body: JSON.stringify({ query, variables }),
+    const mutation = isMutation(query);
+    this.policy?.checkRequest(this.label, mutation);
+    await this.resolveTokenType();
+
+    const policy = this.retryPolicy;
+    const maxRetries = options.retrySafe || !mutation ? policy.maxRetries : 0;
+
+    for (let retry = 0; ; retry++) {
+      if (retry > 0) recordRetry();
+
+      let response: { status: number; ok: boolean; retryAfter: string | null; text: string };
+      try {
+        response = await this.send(query, variables);
+      } catch (e) {
+        if (retry >= maxRetries) throw e;
+        await sleep(backoffDelay(policy, retry + 1));
+        continue;
+      }
+
+      if (!response.ok) {
+        const message = `Railway API error (${response.status}): ${response.text}`;
+        if (retry >= maxRetries || !isRetryableStatus(response.status)) {
+          throw new Error(message);
+        }
+        const retryAfter = parseRetryAfter(response.retryAfter);
+        if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+          throw new Error(
+            `${message} (Retry-After of ${Math.ceil(retryAfter / 1000)}s exceeds the retry limit)`
+          );
+        }
+        await sleep(Math.max(retryAfter ?? 0, backoffDelay(policy, retry + 1)));
+        continue;
+      }
+
+      const json = JSON.parse(response.text) as {
+        data?: T;
+        errors?: Array<{ message: string }>;
+      };
+
+      if (json.errors && json.errors.length > 0) {
+        throw new Error(
+          `GraphQL errors: ${json.errors.map((e) => e.message).join(", ")}`
+        );
+      }
+
+      return json.data as T;
+    }
+  }
+
+  /** The token type, once declared or detected */
+  get tokenType(): TokenType | undefined {
+    return this.knownType;
+  }
+
+  /**
+   * The token's type. Undeclared tokens are tried as account tokens (`me`),
+   * then as project tokens (`projectToken`, which also gives the scope), then
+   * as team tokens (listing projects); one Railway refuses all three ways is
+   * rejected with TokenRejectedError. Detected once; a transient failure is
+   * retried on the next call.
+   */
+  resolveTokenType(): Promise<TokenType> {
+    this.detection ??= this.detectTokenType().catch((e) => {
+      this.detection = undefined;
+      throw e;
     });
+    return this.detection;
+  }
+
+  private async detectTokenType(): Promise<TokenType> {
+    const declared = this.declaredType;
+    if (declared === "account" || declared === "team") return (this.knownType = declared);
+    if (!declared && (await this.attempt(`query { me { id } }`, "account"))) {
+      return (this.knownType = "account");
+    }
+    const data = await this.attempt(`query { projectToken { projectId environmentId } }`, "project");
+    if (data?.projectToken?.projectId) {
+      this.scope = { projectId: data.projectToken.projectId, environmentId: data.projectToken.environmentId };
+      return (this.knownType = "project");
+    }
+    if (declared === "project") {
+      throw new TokenRejectedError("declared as a project token, but Railway doesn't accept it as one");
+    }
+    if (!(await this.attempt(TEAM_PROBE, "team"))) {
+      throw new TokenRejectedError("Railway rejected this token (as an account, team and project token)");
+    }
+    return (this.knownType = "team");
+  }
 
+  /** One request authenticated as `type`: its data, or undefined when Railway refuses it */
+  private async attempt(query: string, type: TokenType, variables?: Record<string, any>): Promise<any> {
+    const response = await this.send(query, variables, type);
     if (!response.ok) {
-      const text = await response.text();
+      if ([400, 401, 403].includes(response.status)) return undefined;
+      throw new Error(`Railway API error (${response.status}): ${response.text}`);
+    }
+    const json = JSON.parse(response.text) as { data?: any; errors?: unknown[] };
+    return json.errors?.length ? undefined : json.data;
+  }
+
+  /** Project tokens have their own header; account and team tokens are bearer tokens */
+  private authHeaders(type = this.knownType): Record<string, string> {
+    return type === "project" ? { "Project-Access-Token": this.token } : { Authorization: `Bearer ${this.token}` };
+  }
+
+  /** One HTTP attempt, aborted after the policy's timeout */
+  private async send(query: string, variables?: Record<string, any>, type?: TokenType) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.retryPolicy.timeoutMs);
+    try {
+      const response = await fetch(this.apiUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.authHeaders(type),
+        },
+        body: JSON.stringify({ query, variables }),
+        signal: controller.signal,
+      });
+      return {
+        status: response.status,
+        ok: response.ok,
+        retryAfter: response.headers.get("retry-after"),
+        text: await response.text(),
+      };
+    } catch (e) {
+      if (controller.signal.aborted) {
+        throw new Error(`Railway API request timed out after ${this.retryPolicy.timeoutMs}ms`);
+      }
       throw new Error(
-        `Railway API error (${response.status}): ${text}`
+        `Railway API request failed: ${e instanceof Error ? e.message : String(e)}`
       );
+    } finally {
+      clearTimeout(timer);
     }
+  }
 
-    const json = (await response.json()) as {
-      data?: T;
-      errors?: Array<{ message: string }>;
-    };
+  /**
+   * Run a GraphQL subscription over graphql-ws, calling `onNext` for each
+   * event until the server completes it or `signal` aborts.
+   */
+  async subscribe(
+    query: string,
+    variables: Record<string, any>,
+    onNext: (data: any) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    this.policy?.checkRequest(this.label, false);
+    await this.resolveTokenType();
+    const auth = this.authHeaders();
+    return subscribe({
+      url: this.wsUrl,
+      query,
+      variables,
+      headers: auth,
+      connectionParams: auth,
+      onNext,
+      signal,
+    });
+  }
 
-    if (json.errors && json.errors.length > 0) {
-      throw new Error(
-        `GraphQL errors: ${json.errors.map((e) => e.message).join(", ")}`
-      );
-    }
+  // ─── Pagination ────────────────────────────────────────────
 
-    return json.data as T;
+  /**
+   * Read a Relay-style connection. The query must declare `$first: Int` and
+   * `$after: String` and select `edges { node }` plus `pageInfo`; `connection`
+   * picks the connection object out of the response. With `all`, pages are
+   * followed until `hasNextPage` is false.
+   */
+  private async paginate<T = any>(
+    query: string,
+    variables: Record<string, any>,
+    connection: (data: any) => any,
+    page: PageOptions
+  ): Promise<Page<T>> {
+    const nodes: T[] = [];
+    let after = page.after ?? null;
+    for (;;) {
+      const data = await this.query(query, {
+        ...variables,
+        first: page.first ?? null,
+        after,
+      });
+      const conn = connection(data);
+      nodes.push(...(conn?.edges || []).map((e: any) => e.node));
+      const pageInfo: PageInfo = {
+        hasNextPage: Boolean(conn?.pageInfo?.hasNextPage),
+        endCursor: conn?.pageInfo?.endCursor ?? null,
+      };
+      // Stop on a repeated cursor too, so a misbehaving API can't loop us forever
+      if (!page.all || !pageInfo.hasNextPage || !pageInfo.endCursor || pageInfo.endCursor === after) {
+        return { nodes, pageInfo };
+      }
+      after = pageInfo.endCursor;
+    }
   }
 
   // ─── Workspaces (Railway calls them workspaces, not teams) ──
 
-  async listWorkspaces() {
-    return this.query(`
-      query {
+  async listWorkspaces(page: PageOptions = {}): Promise<Page<any>> {
+    const type = await this.resolveTokenType();
+    // A project token belongs to no workspace it can list
+    if (type === "project") return emptyPage();
+    if (type === "team") {
+      const projects = await this.paginate(TEAM_WORKSPACES, {}, (data) => data?.projects, { all: true });
+      return singlePage(workspacesOf(projects.nodes));
+    }
+    return this.paginate(
+      `
+      query ($first: Int, $after: String) {
         me {
-          workspaces {
+          workspaces(first: $first, after: $after) {
             edges {
               node {
                 id
@@ -65,23 +392,38 @@ export class RailwayClient {
                 updatedAt
               }
             }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
           }
         }
       }
-    `);
+    `,
+      {},
+      (data) => data?.me?.workspaces,
+      page
+    );
   }
 
   // ─── Projects ──────────────────────────────────────────────
 
-  async listProjects(workspaceId?: string) {
+  /**
+   * Projects in a workspace (which also returns the workspace's id and name),
+   * or every project visible to this token. Each project's environments and
+   * services are complete: nested connections with more than one page are
+   * read to the end.
+   */
+  async listProjects(workspaceId?: string, page: PageOptions = {}) {
     if (workspaceId) {
-      return this.query(
+      let workspace: { id: string; name: string } | undefined;
+      const result = await this.paginate(
         `
-        query ($workspaceId: String!) {
+        query ($workspaceId: String!, $first: Int, $after: String) {
           workspace(workspaceId: $workspaceId) {
             id
             name
-            projects {
+            projects(first: $first, after: $after) {
               edges {
                 node {
                   id
@@ -96,6 +438,9 @@ export class RailwayClient {
                         name
                       }
                     }
+                    pageInfo {
+                      hasNextPage
+                    }
                   }
                   services {
                     edges {
@@ -104,20 +449,39 @@ export class RailwayClient {
                         name
                       }
                     }
+                    pageInfo {
+                      hasNextPage
+                    }
                   }
                 }
               }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
             }
           }
         }
       `,
-        { workspaceId }
+        { workspaceId },
+        (data) => {
+          if (data?.workspace) workspace = { id: data.workspace.id, name: data.workspace.name };
+          return data?.workspace?.projects;
+        },
+        page
       );
+      await this.completeNested(result.nodes);
+      return { ...result, workspace };
     }
     // No workspaceId — list all projects visible to this token
-    return this.query(`
-      query {
-        projects {
+    if ((await this.resolveTokenType()) === "project") {
+      const result = (await this.getProject(this.scope!.projectId)) as any;
+      return result?.project ? singlePage([result.project]) : emptyPage();
+    }
+    const result = await this.paginate(
+      `
+      query ($first: Int, $after: String) {
+        projects(first: $first, after: $after) {
           edges {
             node {
               id
@@ -132,6 +496,9 @@ export class RailwayClient {
                     name
                   }
                 }
+                pageInfo {
+                  hasNextPage
+                }
               }
               services {
                 edges {
@@ -140,19 +507,45 @@ export class RailwayClient {
                     name
                   }
                 }
+                pageInfo {
+                  hasNextPage
+                }
               }
             }
           }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
         }
       }
-    `);
+    `,
+      {},
+      (data) => data?.projects,
+      page
+    );
+    await this.completeNested(result.nodes);
+    return result;
+  }
+
+  /** Read the remaining pages of any project's environments or services that were cut short */
+  private async completeNested(projects: any[]) {
+    for (const project of projects) {
+      if (project?.environments?.pageInfo?.hasNextPage) {
+        const rest = await this.listEnvironments(project.id, { all: true });
+        project.environments = { edges: rest.nodes.map((node) => ({ node })), pageInfo: rest.pageInfo };
+      }
+      if (project?.services?.pageInfo?.hasNextPage) {
+        const rest = await this.listServices(project.id, { all: true });
+        project.services = { edges: rest.nodes.map((node) => ({ node })), pageInfo: rest.pageInfo };
+      }
+    }
   }
 
   async listAllProjects() {
-    // Simply list all projects visible to this token
-    const result = await this.listProjects() as any;
-    const projects = result?.projects?.edges?.map((e: any) => e.node) || [];
-    return projects;
+    // Every page of projects visible to this token
+    const result = await this.listProjects(undefined, { all: true });
+    return result.nodes;
   }
 
   async getProject(projectId: string) {
@@ -179,6 +572,45 @@ export class RailwayClient {
                 id
                 name
                 icon
+                serviceInstances {
+                  edges {
+                    node {
+                      environmentId
+                      source {
+                        repo
+                        image
+                      }
+                      domains {
+                        serviceDomains {
+                          id
+                          domain
+                        }
+                        customDomains {
+                          id
+                          domain
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+          volumes {
+            edges {
+              node {
+                id
+                name
+                volumeInstances {
+                  edges {
+                    node {
+                      id
+                      environmentId
+                      serviceId
+                      mountPath
+                    }
+                  }
+                }
               }
             }
           }
@@ -216,12 +648,12 @@ export class RailwayClient {
 
   // ─── Services ──────────────────────────────────────────────
 
-  async listServices(projectId: string) {
-    return this.query(
+  async listServices(projectId: string, page: PageOptions = {}) {
+    return this.paginate(
       `
-      query ($projectId: String!) {
+      query ($projectId: String!, $first: Int, $after: String) {
         project(id: $projectId) {
-          services {
+          services(first: $first, after: $after) {
             edges {
               node {
                 id
@@ -231,11 +663,32 @@ export class RailwayClient {
                 updatedAt
               }
             }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
           }
         }
       }
     `,
-      { projectId }
+      { projectId },
+      (data) => data?.project?.services,
+      page
+    );
+  }
+
+  async getService(serviceId: string) {
+    return this.query(
+      `
+      query ($id: String!) {
+        service(id: $id) {
+          id
+          name
+          projectId
+        }
+      }
+    `,
+      { id: serviceId }
     );
   }
 
@@ -257,6 +710,26 @@ export class RailwayClient {
     );
   }
 
+  /** Point a service instance at a different repo or image in one environment */
+  async updateServiceSource(
+    serviceId: string,
+    environmentId: string,
+    source: { repo?: string; image?: string }
+  ) {
+    return this.query(
+      `
+      mutation ($serviceId: String!, $environmentId: String!, $input: ServiceInstanceUpdateInput!) {
+        serviceInstanceUpdate(
+          serviceId: $serviceId
+          environmentId: $environmentId
+          input: $input
+        )
+      }
+    `,
+      { serviceId, environmentId, input: { source } }
+    );
+  }
+
   async deleteService(serviceId: string) {
     return this.query(
       `
@@ -273,12 +746,13 @@ export class RailwayClient {
   async listDeployments(
     projectId: string,
     serviceId: string,
-    environmentId: string
+    environmentId: string,
+    page: PageOptions = {}
   ) {
-    return this.query(
+    return this.paginate(
       `
-      query ($input: DeploymentListInput!) {
-        deployments(input: $input) {
+      query ($input: DeploymentListInput!, $first: Int, $after: String) {
+        deployments(input: $input, first: $first, after: $after) {
           edges {
             node {
               id
@@ -287,14 +761,21 @@ export class RailwayClient {
               updatedAt
               staticUrl
               meta
+              canRollback
             }
           }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
         }
       }
     `,
       {
         input: { projectId, serviceId, environmentId },
-      }
+      },
+      (data) => data?.deployments,
+      page
     );
   }
 
@@ -310,6 +791,10 @@ export class RailwayClient {
           staticUrl
           meta
           canRedeploy
+          canRollback
+          projectId
+          serviceId
+          environmentId
         }
       }
     `,
@@ -376,14 +861,26 @@ export class RailwayClient {
     );
   }
 
+  /** Redeploy an earlier deployment's build (image and config) */
+  async rollbackDeployment(deploymentId: string) {
+    return this.query(
+      `
+      mutation ($id: String!) {
+        deploymentRollback(id: $id)
+      }
+    `,
+      { id: deploymentId }
+    );
+  }
+
   // ─── Environments ──────────────────────────────────────────
 
-  async listEnvironments(projectId: string) {
-    return this.query(
+  async listEnvironments(projectId: string, page: PageOptions = {}) {
+    return this.paginate(
       `
-      query ($projectId: String!) {
+      query ($projectId: String!, $first: Int, $after: String) {
         project(id: $projectId) {
-          environments {
+          environments(first: $first, after: $after) {
             edges {
               node {
                 id
@@ -392,11 +889,32 @@ export class RailwayClient {
                 updatedAt
               }
             }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
           }
         }
       }
     `,
-      { projectId }
+      { projectId },
+      (data) => data?.project?.environments,
+      page
+    );
+  }
+
+  async getEnvironment(environmentId: string) {
+    return this.query(
+      `
+      query ($id: String!) {
+        environment(id: $id) {
+          id
+          name
+          projectId
+        }
+      }
+    `,
+      { id: environmentId }
     );
   }
 
@@ -427,29 +945,33 @@ export class RailwayClient {
 
   // ─── Variables ─────────────────────────────────────────────
 
+  /** With `unrendered`, references like ${{Postgres.DATABASE_URL}} come back unresolved */
   async getVariables(
     projectId: string,
     environmentId: string,
-    serviceId?: string
+    serviceId?: string,
+    unrendered?: boolean
   ) {
     return this.query(
       `
-      query ($projectId: String!, $environmentId: String!, $serviceId: String) {
+      query ($projectId: String!, $environmentId: String!, $serviceId: String, $unrendered: Boolean) {
         variables(
           projectId: $projectId
           environmentId: $environmentId
           serviceId: $serviceId
+          unrendered: $unrendered
         )
       }
     `,
-      { projectId, environmentId, serviceId }
+      { projectId, environmentId, serviceId, unrendered }
     );
   }
 
+  /** Omit serviceId to set shared (project-level) variables */
   async upsertVariables(
     projectId: string,
     environmentId: string,
-    serviceId: string,
+    serviceId: string | undefined,
     variables: Record<string, string>
   ) {
     return this.query(
@@ -460,14 +982,15 @@ export class RailwayClient {
     `,
       {
         input: { projectId, environmentId, serviceId, variables },
-      }
+      },
+      { retrySafe: true } // Upserting the same values twice is harmless
     );
   }
 
   async deleteVariable(
     projectId: string,
     environmentId: string,
-    serviceId: string,
+    serviceId: string | undefined,
     name: string
   ) {
     return this.query(
@@ -582,6 +1105,50 @@ export class RailwayClient {
     );
   }
 
+  async tailDeploymentLogs(
+    deploymentId: string,
+    onLogs: (logs: LogLine[]) => void,
+    signal?: AbortSignal,
+    filter?: string
+  ) {
+    return this.subscribe(
+      `
+      subscription ($deploymentId: String!, $filter: String) {
+        deploymentLogs(deploymentId: $deploymentId, filter: $filter) {
+          timestamp
+          message
+          severity
+        }
+      }
+    `,
+      { deploymentId, filter },
+      (data) => onLogs(data?.deploymentLogs || []),
+      signal
+    );
+  }
+
+  async tailBuildLogs(
+    deploymentId: string,
+    onLogs: (logs: LogLine[]) => void,
+    signal?: AbortSignal,
+    filter?: string
+  ) {
+    return this.subscribe(
+      `
+      subscription ($deploymentId: String!, $filter: String) {
+        buildLogs(deploymentId: $deploymentId, filter: $filter) {
+          timestamp
+          message
+          severity
+        }
+      }
+    `,
+      { deploymentId, filter },
+      (data) => onLogs(data?.buildLogs || []),
+      signal
+    );
+  }
+
   // ─── Volumes ───────────────────────────────────────────────
 
   async createVolume(
@@ -637,27 +1204,71 @@ export class RailwayClient {
     return this.query(query, vars);
   }
 
-  // ─── Workspace Info ────────────────────────────────────────
+  // ─── Token Info ────────────────────────────────────────────
+
+  /** Disabled after Railway rejected the token; validate() again to re-enable */
+  get disabled(): boolean {
+    return this.status?.valid === false;
+  }
+
+  /**
+   * Check the token against Railway and record what it can see. Never throws:
+   * a rejected token comes back invalid, an unreachable API as valid with an
+   * error (so the token stays enabled).
+   */
+  async validate(): Promise<TokenStatus> {
+    const checkedAt = new Date().toISOString();
+    let status: TokenStatus;
+    try {
+      const type = await this.resolveTokenType();
+      status = { valid: true, checkedAt, type, ...(await this.identify(type)) };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const valid = !(e instanceof TokenRejectedError);
+      // A rejected token's detected type is only a guess
+      const type = valid ? this.knownType : this.declaredType;
+      status = { valid, checkedAt, type, workspaces: [], error: message };
+    }
+    this.status = status;
+    return status;
+  }
 
-  async getTokenWorkspace(): Promise<string> {
-    const result = (await this.query(`
-      query {
-        me {
-          name
-          workspaces {
-            edges {
-              node {
-                id
-                name
-              }
-            }
-          }
-        }
-      }
-    `)) as any;
-    const workspaces = result?.me?.workspaces?.edges?.map((e: any) => e.node) || [];
-    const wsNames = workspaces.map((w: any) => w.name).join(", ");
-    return `${result?.me?.name || "Unknown"} (workspaces: ${wsNames || "none"})`;
+  /** Who the token belongs to and what it can see */
+  private async identify(type: TokenType): Promise<Pick<TokenStatus, "user" | "workspaces" | "project">> {
+    if (type === "project") {
+      const data = await this.attempt(
+        `query ($id: String!) { project(id: $id) { id name environments { edges { node { id name } } } } }`,
+        "project",
+        { id: this.scope!.projectId }
+      );
+      if (!data?.project) throw new TokenRejectedError("Railway rejected this project token");
+      const environment = (data.project.environments?.edges || [])
+        .map((e: any) => e.node)
+        .find((e: any) => e?.id === this.scope!.environmentId);
+      return {
+        workspaces: [],
+        project: {
+          id: data.project.id,
+          name: data.project.name,
+          environmentId: this.scope!.environmentId,
+          environment: environment?.name ?? this.scope!.environmentId,
+        },
+      };
+    }
+    if (type === "team") {
+      const data = await this.attempt(TEAM_PROBE, "team");
+      if (!data) throw new TokenRejectedError("Railway rejected this token (as an account, team and project token)");
+      return { workspaces: (await this.listWorkspaces({ all: true })).nodes };
+    }
+    const data = await this.attempt(
+      `query { me { name email workspaces { edges { node { id name } } } } }`,
+      "account"
+    );
+    if (!data?.me) throw new TokenRejectedError("Railway rejected this token");
+    return {
+      user: data.me.name || data.me.email,
+      workspaces: (data.me.workspaces?.edges || []).map((e: any) => ({ id: e.node.id, name: e.node.name })),
+    };
   }
 }
 
@@ -665,30 +1276,319 @@ export class RailwayClient {
 //  MultiRailwayClient — merges results across workspace tokens
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/** IDs a call touches; any one of them is enough to find the owning token */
+type ResourceRef = Partial<Record<ResourceKind, string>>;
+
+/** Lookup order — the first ID we have an owner for wins, the first present is probed */
+const ROUTE_ORDER: ResourceKind[] = [
+  "project",
+  "service",
+  "environment",
+  "deployment",
+  "workspace",
+];
+
+/** projectId/serviceId/environmentId/deploymentId/workspaceId values anywhere in raw GraphQL variables */
+function idsIn(value: unknown, ref: ResourceRef = {}): ResourceRef {
+  if (!value || typeof value !== "object") return ref;
+  for (const [key, v] of Object.entries(value)) {
+    const kind = ROUTE_ORDER.find((k) => key === `${k}Id`);
+    if (kind && typeof v === "string") ref[kind] ??= v;
+    else idsIn(v, ref);
+  }
+  return ref;
+}
+
+/** Whether a project token's scope rules out the resources in `ref` */
+function outOfScope(client: RailwayClient, ref: ResourceRef): boolean {
+  const scope = client.scope;
+  if (!scope) return false;
+  return (
+    Boolean(ref.workspace) ||
+    (ref.project !== undefined && ref.project !== scope.projectId) ||
+    (ref.environment !== undefined && ref.environment !== scope.environmentId)
+  );
+}
+
+/** Errors meaning the token can't see the resource (as opposed to the call itself failing) */
+function isAccessError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /not found|not authori[sz]ed|forbidden|Railway API error \((403|404)\)/i.test(message);
+}
+
+const describeRef = (ref: ResourceRef) =>
+  Object.entries(ref)
+    .filter(([, id]) => id)
+    .map(([kind, id]) => `${kind} ${id}`)
+    .join(", ");
+
+export interface MultiRailwayClientOptions {
+  /** Where to persist the ownership index (omit to keep it in memory only) */
+  ownershipFile?: string;
+  /** Retry/timeout limits and endpoints applied to every token's client */
+  client?: RailwayClientOptions;
+  /** Where mutating calls are recorded (omit to not record them) */
+  audit?: AuditLog;
+}
+
 export class MultiRailwayClient {
   public clients: RailwayClient[];
+  private owners: OwnershipIndex;
+  private audit?: AuditLog;
 
-  constructor(tokens: { token: string; label: string }[]) {
-    this.clients = tokens.map((t) => new RailwayClient(t.token, t.label));
+  /** Views made by restrictTo share the clients, ownership index and audit log */
+  private constructor(clients: RailwayClient[], owners: OwnershipIndex, audit?: AuditLog) {
+    this.clients = clients;
+    this.owners = owners;
+    this.audit = audit;
   }
 
-  /** Try a query against each client until one succeeds (for ID-based lookups) */
-  private async tryEach<T>(fn: (client: RailwayClient) => Promise<T>): Promise<T> {
-    let lastError: Error | undefined;
-    for (const client of this.clients) {
-      try {
-        return await fn(client);
-      } catch (e) {
-        lastError = e instanceof Error ? e : new Error(String(e));
+  /** One client per token, with the ownership index loaded from `options.ownershipFile` */
+  static fromTokens(tokens: TokenConfig[], options: MultiRailwayClientOptions = {}): MultiRailwayClient {
+    const clients = tokens.map(
+      (t) => new RailwayClient(t.token, t.label, { ...options.client, tokenType: t.type })
+    );
+    const owners = new OwnershipIndex(options.ownershipFile);
+    owners.retainLabels(clients.map((c) => c.label));
+    return new MultiRailwayClient(clients, owners, options.audit);
+  }
+
+  /**
+   * Run an ID-based call against the token that owns the resource. When the
+   * owner came from the ownership index and the call fails with not-found or
+   * forbidden (e.g. the project moved workspace), the stale entry is dropped
+   * and the owner is looked up again, once.
+   */
+  private async route<T>(
+    ref: ResourceRef,
+    fn: (client: RailwayClient) => Promise<T>
+  ): Promise<T> {
+    const { client, cachedId } = await this.findOwner(ref);
+    try {
+      return await fn(client);
+    } catch (e) {
+      if (!cachedId || !isAccessError(e)) throw e;
+      this.forget(cachedId);
+      return fn(await this.locate(ref, this.eligible(ref)));
+    }
+  }
+
+  private async ownerOf(ref: ResourceRef): Promise<RailwayClient> {
+    return (await this.findOwner(ref)).client;
+  }
+
+  /** The owning client, and the ID whose index entry picked it (if one did) */
+  private async findOwner(ref: ResourceRef): Promise<{ client: RailwayClient; cachedId?: string }> {
+    const active = this.active;
+    if (active.length === 0) throw new Error(this.noClientsMessage());
+    if (active.length === 1) return { client: active[0] };
+
+    // Project tokens only take calls for their own project and environment
+    await Promise.allSettled(active.map((c) => c.resolveTokenType()));
+    const eligible = this.eligible(ref);
+    if (eligible.length === 0) throw new Error(`No token can act on ${describeRef(ref)}`);
+
+    for (const kind of ROUTE_ORDER) {
+      const id = ref[kind];
+      const label = id ? this.owners.get(id) : undefined;
+      const client = label ? eligible.find((c) => c.label === label) : undefined;
+      if (client) return { client, cachedId: id };
+    }
+    const scoped = eligible.find((c) => c.scope && (ref.project === c.scope.projectId || ref.environment === c.scope.environmentId));
+    return { client: scoped ?? (await this.locate(ref, eligible)) };
+  }
+
+  /** Active clients whose scope allows acting on `ref` */
+  private eligible(ref: ResourceRef): RailwayClient[] {
+    return this.active.filter((c) => !outOfScope(c, ref));
+  }
+
+  /** Unknown ID — probe every candidate token in parallel and remember whichever can see it */
+  private async locate(ref: ResourceRef, candidates: RailwayClient[]): Promise<RailwayClient> {
+    const kind = ROUTE_ORDER.find((k) => ref[k]);
+    if (!kind) throw new Error("No resource ID to route on");
+    const id = ref[kind]!;
+
+    const attempts = await Promise.allSettled(
+      candidates.map((c) => this.probe(c, kind, id))
+    );
+    const errors: string[] = [];
+    for (let i = 0; i < attempts.length; i++) {
+      const attempt = attempts[i];
+      const client = candidates[i];
+      if (attempt.status === "fulfilled") {
+        attempt.value();
+        this.owners.flush();
+        return client;
+      }
+      const reason = attempt.reason;
+      errors.push(`[${client.label}] ${reason instanceof Error ? reason.message : String(reason)}`);
+    }
+    throw new Error(`No workspace token can access ${kind} ${id}: ${errors.join("; ")}`);
+  }
+
+  /** Check that a client can see the resource; resolves to a callback that records it */
+  private async probe(
+    client: RailwayClient,
+    kind: ResourceKind,
+    id: string
+  ): Promise<() => void> {
+    const label = client.label;
+    switch (kind) {
+      case "project": {
+        const result = (await client.getProject(id)) as any;
+        if (!result?.project) throw new Error(`Project ${id} not found`);
+        return () => this.owners.recordProject(result.project, label);
+      }
+      case "service": {
+        const result = (await client.getService(id)) as any;
+        if (!result?.service) throw new Error(`Service ${id} not found`);
+        return () => this.owners.set("service", id, label, result.service.projectId);
+      }
+      case "environment": {
+        const result = (await client.getEnvironment(id)) as any;
+        if (!result?.environment) throw new Error(`Environment ${id} not found`);
+        return () => this.owners.set("environment", id, label, result.environment.projectId);
       }
+      case "deployment": {
+        const result = (await client.getDeployment(id)) as any;
+        if (!result?.deployment) throw new Error(`Deployment ${id} not found`);
+        return () => this.owners.set("deployment", id, label, result.deployment.projectId);
+      }
+      case "workspace": {
+        const result = await client.listWorkspaces({ all: true });
+        const ids: string[] = result.nodes.map((w: any) => w.id);
+        if (!ids.includes(id)) throw new Error(`Workspace ${id} not visible to this token`);
+        return () => ids.forEach((w) => this.owners.set("workspace", w, label));
+      }
+    }
+  }
+
+  /** A routed mutation, recorded in the audit log */
+  private async mutate<T>(
+    action: string,
+    ref: ResourceRef,
+    args: Record<string, unknown>,
+    fn: (client: RailwayClient) => Promise<T>,
+    created?: (result: T) => ResourceRef
+  ): Promise<T> {
+    return this.audited(action, ref, args, (run) => this.route(ref, run), fn, created);
+  }
+
+  /**
+   * Run a mutation through `dispatch` (which picks the client to call `fn`
+   * with) and append the outcome to the audit log. Targets are the IDs passed
+   * in, any created by the call, and the owning project when the ownership
+   * index knows it.
+   */
+  private async audited<T>(
+    action: string,
+    ref: ResourceRef,
+    args: Record<string, unknown>,
+    dispatch: (run: (client: RailwayClient) => Promise<T>) => Promise<T>,
+    fn: (client: RailwayClient) => Promise<T>,
+    created?: (result: T) => ResourceRef
+  ): Promise<T> {
+    if (!this.audit) return dispatch(fn);
+    const started = Date.now();
+    let client: RailwayClient | undefined;
+    const record = (targets: ResourceRef, error?: unknown) => {
+      const known: Record<string, string> = {};
+      for (const [kind, id] of Object.entries(targets)) if (id) known[kind] = id;
+      const project = known.project ?? Object.values(known).map((id) => this.owners.projectOf(id)).find(Boolean);
+      if (project) known.project = project;
+      this.audit!.record({
+        timestamp: new Date(started).toISOString(),
+        tool: callContext.getStore()?.tool,
+        client: callContext.getStore()?.client,
+        action,
+        token: client?.label,
+        args: redactArgs(args) as Record<string, unknown>,
+        targets: known,
+        outcome: error === undefined ? "ok" : error instanceof PolicyError ? "denied" : "error",
+        ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+        durationMs: Date.now() - started,
+      });
+    };
+    try {
+      const result = await dispatch((c) => {
+        client = c;
+        return fn(c);
+      });
+      record({ ...ref, ...(created?.(result) ?? {}) });
+      return result;
+    } catch (e) {
+      record(ref, e);
+      throw e;
+    }
+  }
+
+  /** Record resources from a list page (workspaces, or services/environments/deployments of a project) */
+  private recordNodes(kind: ResourceKind, nodes: any[], label: string, projectId?: string) {
+    for (const node of nodes) {
+      if (node?.id) this.owners.set(kind, node.id, label, projectId);
+    }
+    this.owners.flush();
+  }
+
+  /** Forget a deleted resource so later calls don't route to a stale owner */
+  private forget(id: string) {
+    this.owners.delete(id);
+    this.owners.flush();
+  }
+
+  /** Clients whose tokens Railway hasn't rejected */
+  private get active(): RailwayClient[] {
+    return this.clients.filter((c) => !c.disabled);
+  }
+
+  private noClientsMessage(): string {
+    const disabled = this.clients.filter((c) => c.disabled);
+    if (disabled.length === 0) return "No clients available";
+    return `Every token is disabled: ${disabled.map((c) => `${c.label} (${c.status?.error})`).join("; ")}`;
+  }
+
+  /** Check every token in parallel; tokens Railway rejects are disabled until checked again */
+  async validateTokens(): Promise<{ label: string; status: TokenStatus }[]> {
+    return Promise.all(this.clients.map(async (c) => ({ label: c.label, status: await c.validate() })));
+  }
+
+  /** The client for a token label, or the first usable client when no label is given */
+  clientFor(label?: string): RailwayClient {
+    if (!label) {
+      const first = this.active[0];
+      if (!first) throw new Error(this.noClientsMessage());
+      return first;
+    }
+    const client = this.clients.find((c) => c.label.toLowerCase() === label.toLowerCase());
+    if (!client) {
+      throw new Error(
+        `No workspace token labelled "${label}" (configured: ${this.clients.map((c) => c.label).join(", ")})`
+      );
     }
-    throw lastError || new Error("No clients available");
+    if (client.disabled) throw new Error(`Token "${client.label}" is disabled: ${client.status?.error}`);
+    return client;
+  }
+
+  /** A view limited to the given token labels, sharing clients, ownership index and audit log */
+  restrictTo(labels: string[]): MultiRailwayClient {
+    const wanted = new Set(labels.map((l) => l.toLowerCase()));
+    return new MultiRailwayClient(
+      this.clients.filter((c) => wanted.has(c.label.toLowerCase())),
+      this.owners,
+      this.audit
+    );
+  }
+
+  /** Label of the token that owns a project */
+  async workspaceOf(projectId: string): Promise<string> {
+    return (await this.ownerOf({ project: projectId })).label;
   }
 
   /** Run a query against all clients and collect results */
-  private async fromAll<T>(fn: (client: RailwayClient) => Promise<T>): Promise<{ workspace: string; data: T }[]> {
+  async fromAll<T>(fn: (client: RailwayClient) => Promise<T>): Promise<{ workspace: string; data: T }[]> {
     const results = await Promise.allSettled(
-      this.clients.map(async (client) => ({
+      this.active.map(async (client) => ({
         workspace: client.label,
         data: await fn(client),
       }))
@@ -705,7 +1605,11 @@ export class MultiRailwayClient {
   // ─── Workspaces ─────────────────────────────────────────────
 
   async listTeams() {
-    const results = await this.fromAll((c) => c.listWorkspaces());
+    // Merged across tokens, so a single cursor can't describe the position — read every page
+    const results = await this.fromAll((c) => c.listWorkspaces({ all: true }));
+    for (const r of results) {
+      this.recordNodes("workspace", r.data.nodes, r.workspace);
+    }
     return results;
   }
 
@@ -717,6 +1621,10 @@ export class MultiRailwayClient {
       workspace: r.workspace,
       projects: r.data as any[],
     }));
+    for (const ws of workspaces) {
+      for (const project of ws.projects) this.owners.recordProject(project, ws.workspace);
+    }
+    this.owners.flush();
     return { workspaces };
   }
 
@@ -724,114 +1632,296 @@ export class MultiRailwayClient {
     return this.listAllProjects();
   }
 
-  async listTeamProjects(teamId: string) {
-    return this.tryEach((c) => c.listProjects(teamId));
+  async listTeamProjects(teamId: string, page: PageOptions = {}) {
+    return this.route({ workspace: teamId }, async (c) => {
+      const result = await c.listProjects(teamId, page);
+      for (const project of result.nodes) {
+        this.owners.recordProject(project, c.label);
+      }
+      this.owners.flush();
+      return result;
+    });
   }
 
-  // ─── Single-resource lookups (try each token) ──────────────
+  // ─── Single-resource lookups (routed to the owning token) ──
 
   async getProject(projectId: string) {
-    return this.tryEach((c) => c.getProject(projectId));
+    return this.route({ project: projectId }, async (c) => {
+      const result = (await c.getProject(projectId)) as any;
+      this.owners.recordProject(result?.project, c.label);
+      this.owners.flush();
+      return result;
+    });
   }
 
-  async createProject(name: string, description?: string) {
-    // Use the first client by default; user can specify workspace
-    return this.clients[0].createProject(name, description);
+  async getService(serviceId: string) {
+    return this.route({ service: serviceId }, (c) => c.getService(serviceId));
+  }
+
+  async getEnvironment(environmentId: string) {
+    return this.route({ environment: environmentId }, (c) => c.getEnvironment(environmentId));
+  }
+
+  /** Create under the token labelled `workspace`, or the first token by default */
+  async createProject(name: string, description?: string, workspace?: string) {
+    return this.audited(
+      "createProject",
+      {},
+      { name, description, workspace },
+      (run: (client: RailwayClient) => Promise<any>) => run(this.clientFor(workspace)),
+      async (client) => {
+        const result = (await client.createProject(name, description)) as any;
+        this.owners.recordProject(result?.projectCreate, client.label);
+        this.owners.flush();
+        return result;
+      },
+      (result) => ({ project: result?.projectCreate?.id })
+    );
   }
 
   async deleteProject(projectId: string) {
-    return this.tryEach((c) => c.deleteProject(projectId));
+    const result = await this.mutate("deleteProject", { project: projectId }, { projectId }, (c) => c.deleteProject(projectId));
+    this.forget(projectId);
+    return result;
   }
 
-  async listServices(projectId: string) {
-    return this.tryEach((c) => c.listServices(projectId));
+  async listServices(projectId: string, page: PageOptions = {}) {
+    return this.route({ project: projectId }, async (c) => {
+      const result = await c.listServices(projectId, page);
+      this.recordNodes("service", result.nodes, c.label, projectId);
+      return result;
+    });
   }
 
   async createService(projectId: string, name: string, source?: { repo?: string; image?: string }) {
-    return this.tryEach((c) => c.createService(projectId, name, source));
+    return this.mutate(
+      "createService",
+      { project: projectId },
+      { projectId, name, source },
+      async (c) => {
+        const result = (await c.createService(projectId, name, source)) as any;
+        if (result?.serviceCreate?.id) {
+          this.owners.set("service", result.serviceCreate.id, c.label, projectId);
+          this.owners.flush();
+        }
+        return result;
+      },
+      (result) => ({ service: result?.serviceCreate?.id })
+    );
+  }
+
+  async updateServiceSource(serviceId: string, environmentId: string, source: { repo?: string; image?: string }) {
+    return this.mutate(
+      "updateServiceSource",
+      { service: serviceId, environment: environmentId },
+      { serviceId, environmentId, source },
+      (c) => c.updateServiceSource(serviceId, environmentId, source)
+    );
   }
 
   async deleteService(serviceId: string) {
-    return this.tryEach((c) => c.deleteService(serviceId));
+    const result = await this.mutate("deleteService", { service: serviceId }, { serviceId }, (c) => c.deleteService(serviceId));
+    this.forget(serviceId);
+    return result;
   }
 
-  async listDeployments(projectId: string, serviceId: string, environmentId: string) {
-    return this.tryEach((c) => c.listDeployments(projectId, serviceId, environmentId));
+  async listDeployments(projectId: string, serviceId: string, environmentId: string, page: PageOptions = {}) {
+    return this.route({ project: projectId, service: serviceId, environment: environmentId }, async (c) => {
+      const result = await c.listDeployments(projectId, serviceId, environmentId, page);
+      this.recordNodes("deployment", result.nodes, c.label, projectId);
+      return result;
+    });
   }
 
   async getDeployment(deploymentId: string) {
-    return this.tryEach((c) => c.getDeployment(deploymentId));
+    return this.route({ deployment: deploymentId }, (c) => c.getDeployment(deploymentId));
   }
 
   async redeploy(serviceId: string, environmentId: string) {
-    return this.tryEach((c) => c.redeploy(serviceId, environmentId));
+    return this.mutate(
+      "redeploy",
+      { service: serviceId, environment: environmentId },
+      { serviceId, environmentId },
+      (c) => c.redeploy(serviceId, environmentId)
+    );
   }
 
   async deployService(serviceId: string, environmentId: string) {
-    return this.tryEach((c) => c.deployService(serviceId, environmentId));
+    return this.mutate(
+      "deployService",
+      { service: serviceId, environment: environmentId },
+      { serviceId, environmentId },
+      async (c) => {
+        const result = (await c.deployService(serviceId, environmentId)) as any;
+        if (result?.serviceInstanceDeployV2?.id) {
+          this.owners.set("deployment", result.serviceInstanceDeployV2.id, c.label, this.owners.projectOf(serviceId));
+          this.owners.flush();
+        }
+        return result;
+      },
+      (result) => ({ deployment: result?.serviceInstanceDeployV2?.id })
+    );
   }
 
   async removeDeployment(deploymentId: string) {
-    return this.tryEach((c) => c.removeDeployment(deploymentId));
+    const result = await this.mutate("removeDeployment", { deployment: deploymentId }, { deploymentId }, (c) =>
+      c.removeDeployment(deploymentId)
+    );
+    this.forget(deploymentId);
+    return result;
   }
 
   async restartDeployment(deploymentId: string) {
-    return this.tryEach((c) => c.restartDeployment(deploymentId));
+    return this.mutate("restartDeployment", { deployment: deploymentId }, { deploymentId }, (c) =>
+      c.restartDeployment(deploymentId)
+    );
+  }
+
+  async rollbackDeployment(deploymentId: string) {
+    return this.mutate("rollbackDeployment", { deployment: deploymentId }, { deploymentId }, (c) =>
+      c.rollbackDeployment(deploymentId)
+    );
   }
 
-  async listEnvironments(projectId: string) {
-    return this.tryEach((c) => c.listEnvironments(projectId));
+  async listEnvironments(projectId: string, page: PageOptions = {}) {
+    return this.route({ project: projectId }, async (c) => {
+      const result = await c.listEnvironments(projectId, page);
+      this.recordNodes("environment", result.nodes, c.label, projectId);
+      return result;
+    });
   }
 
   async createEnvironment(projectId: string, name: string) {
-    return this.tryEach((c) => c.createEnvironment(projectId, name));
+    return this.mutate(
+      "createEnvironment",
+      { project: projectId },
+      { projectId, name },
+      async (c) => {
+        const result = (await c.createEnvironment(projectId, name)) as any;
+        if (result?.environmentCreate?.id) {
+          this.owners.set("environment", result.environmentCreate.id, c.label, projectId);
+          this.owners.flush();
+        }
+        return result;
+      },
+      (result) => ({ environment: result?.environmentCreate?.id })
+    );
   }
 
   async deleteEnvironment(environmentId: string) {
-    return this.tryEach((c) => c.deleteEnvironment(environmentId));
+    const result = await this.mutate("deleteEnvironment", { environment: environmentId }, { environmentId }, (c) =>
+      c.deleteEnvironment(environmentId)
+    );
+    this.forget(environmentId);
+    return result;
   }
 
-  async getVariables(projectId: string, environmentId: string, serviceId?: string) {
-    return this.tryEach((c) => c.getVariables(projectId, environmentId, serviceId));
+  async getVariables(projectId: string, environmentId: string, serviceId?: string, unrendered?: boolean) {
+    return this.route({ project: projectId, environment: environmentId, service: serviceId }, (c) =>
+      c.getVariables(projectId, environmentId, serviceId, unrendered)
+    );
   }
 
-  async upsertVariables(projectId: string, environmentId: string, serviceId: string, variables: Record<string, string>) {
-    return this.tryEach((c) => c.upsertVariables(projectId, environmentId, serviceId, variables));
+  async upsertVariables(projectId: string, environmentId: string, serviceId: string | undefined, variables: Record<string, string>) {
+    return this.mutate(
+      "upsertVariables",
+      { project: projectId, environment: environmentId, service: serviceId },
+      { projectId, environmentId, serviceId, variables },
+      (c) => c.upsertVariables(projectId, environmentId, serviceId, variables)
+    );
   }
 
-  async deleteVariable(projectId: string, environmentId: string, serviceId: string, name: string) {
-    return this.tryEach((c) => c.deleteVariable(projectId, environmentId, serviceId, name));
+  async deleteVariable(projectId: string, environmentId: string, serviceId: string | undefined, name: string) {
+    return this.mutate(
+      "deleteVariable",
+      { project: projectId, environment: environmentId, service: serviceId },
+      { projectId, environmentId, serviceId, name },
+      (c) => c.deleteVariable(projectId, environmentId, serviceId, name)
+    );
   }
 
   async createServiceDomain(serviceId: string, environmentId: string) {
-    return this.tryEach((c) => c.createServiceDomain(serviceId, environmentId));
+    return this.mutate(
+      "createServiceDomain",
+      { service: serviceId, environment: environmentId },
+      { serviceId, environmentId },
+      (c) => c.createServiceDomain(serviceId, environmentId)
+    );
   }
 
   async createCustomDomain(serviceId: string, environmentId: string, domain: string) {
-    return this.tryEach((c) => c.createCustomDomain(serviceId, environmentId, domain));
+    return this.mutate(
+      "createCustomDomain",
+      { service: serviceId, environment: environmentId },
+      { serviceId, environmentId, domain },
+      (c) => c.createCustomDomain(serviceId, environmentId, domain)
+    );
   }
 
   async deleteServiceDomain(environmentId: string, serviceId: string) {
-    return this.tryEach((c) => c.deleteServiceDomain(environmentId, serviceId));
+    return this.mutate(
+      "deleteServiceDomain",
+      { service: serviceId, environment: environmentId },
+      { environmentId, serviceId },
+      (c) => c.deleteServiceDomain(environmentId, serviceId)
+    );
   }
 
   async getDeploymentLogs(deploymentId: string, limit: number = 100) {
-    return this.tryEach((c) => c.getDeploymentLogs(deploymentId, limit));
+    return this.route({ deployment: deploymentId }, (c) => c.getDeploymentLogs(deploymentId, limit));
   }
 
   async getBuildLogs(deploymentId: string) {
-    return this.tryEach((c) => c.getBuildLogs(deploymentId));
+    return this.route({ deployment: deploymentId }, (c) => c.getBuildLogs(deploymentId));
+  }
+
+  async tailDeploymentLogs(
+    deploymentId: string,
+    onLogs: (logs: LogLine[]) => void,
+    signal?: AbortSignal,
+    filter?: string
+  ) {
+    return this.route({ deployment: deploymentId }, (c) =>
+      c.tailDeploymentLogs(deploymentId, onLogs, signal, filter)
+    );
+  }
+
+  async tailBuildLogs(
+    deploymentId: string,
+    onLogs: (logs: LogLine[]) => void,
+    signal?: AbortSignal,
+    filter?: string
+  ) {
+    return this.route({ deployment: deploymentId }, (c) =>
+      c.tailBuildLogs(deploymentId, onLogs, signal, filter)
+    );
   }
 
   async createVolume(projectId: string, environmentId: string, serviceId: string, mountPath: string) {
-    return this.tryEach((c) => c.createVolume(projectId, environmentId, serviceId, mountPath));
+    return this.mutate(
+      "createVolume",
+      { project: projectId, environment: environmentId, service: serviceId },
+      { projectId, environmentId, serviceId, mountPath },
+      (c) => c.createVolume(projectId, environmentId, serviceId, mountPath)
+    );
   }
 
   async introspect() {
-    return this.clients[0].introspect();
+    return this.clientFor().introspect();
   }
 
+  /** Sent with the first usable token; mutations are audited with any IDs found in the variables */
   async rawQuery(query: string, variables?: string) {
-    return this.clients[0].rawQuery(query, variables);
+    const client = this.clientFor();
+    if (!isMutation(query)) return client.rawQuery(query, variables);
+    let parsed: unknown = variables;
+    try {
+      parsed = variables ? JSON.parse(variables) : undefined;
+    } catch {
+      // Left as text — rawQuery itself reports the bad JSON
+    }
+    return this.audited("rawQuery", idsIn(parsed), { query, variables: parsed }, (run) => run(client), (c) =>
+      c.rawQuery(query, variables)
+    );
   }
 }
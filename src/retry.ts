@@ -0,0 +1,119 @@
+/**
+ * Retry policy for Railway API requests
+ * Backoff, Retry-After parsing and per-tool-call retry accounting.
+ */
+
+import { callContext } from "./call-context.js";
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** First backoff delay; doubles on each retry */
+  baseDelayMs: number;
+  /** Upper bound for a single wait, including Retry-After */
+  maxDelayMs: number;
+  /** Abort a single HTTP request after this long */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  timeoutMs: 30_000,
+};
+
+/** Read overrides from RAILWAY_MAX_RETRIES, RAILWAY_RETRY_BASE_MS, RAILWAY_RETRY_MAX_MS, RAILWAY_REQUEST_TIMEOUT_MS */
+export function retryPolicyFromEnv(env: NodeJS.ProcessEnv): RetryPolicy {
+  const num = (name: string, fallback: number) => {
+    const raw = env[name];
+    if (raw === undefined || raw === "") return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+    }
+    return value;
+  };
+  return {
+    maxRetries: num("RAILWAY_MAX_RETRIES", DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: num("RAILWAY_RETRY_BASE_MS", DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: num("RAILWAY_RETRY_MAX_MS", DEFAULT_RETRY_POLICY.maxDelayMs),
+    timeoutMs: num("RAILWAY_REQUEST_TIMEOUT_MS", DEFAULT_RETRY_POLICY.timeoutMs),
+  };
+}
+
+/** Full-jitter exponential backoff for the given retry number (1-based) */
+export function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * True if any operation in the GraphQL document is a mutation. Scans every
+ * top-level definition, skipping comments, strings and anything nested in
+ * braces, brackets or parentheses, so `fragment F on X {…} mutation {…}` and
+ * `query A {…} mutation B {…}` count as mutations.
+ */
+export function isMutation(query: string): boolean {
+  let depth = 0;
+  // The next word at the top level starts a definition (query, mutation, fragment, …)
+  let atDefinition = true;
+  for (let i = 0; i < query.length; i++) {
+    const c = query[i];
+    if (c === "#") {
+      const end = query.indexOf("\n", i);
+      i = end < 0 ? query.length : end;
+    } else if (c === '"') {
+      i = stringEnd(query, i);
+    } else if (c === "{" || c === "(" || c === "[") {
+      depth++;
+    } else if (c === "}" || c === ")" || c === "]") {
+      // Never below zero, so a stray closing brace can't hide what follows it
+      depth = Math.max(0, depth - 1);
+      if (depth === 0 && c === "}") atDefinition = true;
+    } else if (depth === 0 && /[A-Za-z_]/.test(c)) {
+      const word = /^[A-Za-z0-9_]+/.exec(query.slice(i))![0];
+      if (atDefinition && word === "mutation") return true;
+      atDefinition = false;
+      i += word.length - 1;
+    }
+  }
+  return false;
+}
+
+/** Index of the last character of the string (or block string) starting at `start` */
+function stringEnd(text: string, start: number): number {
+  const block = text.startsWith('"""', start);
+  for (let i = start + (block ? 3 : 1); i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (block ? text.startsWith('"""', i) : text[i] === '"') {
+      return block ? i + 2 : i;
+    }
+  }
+  return text.length;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Count a retry against the tool call currently running, if any */
+export function recordRetry() {
+  const context = callContext.getStore();
+  if (context) context.retries++;
+}
@@ -0,0 +1,93 @@
+/**
+ * Rollback
+ * Picks the deployment to restore (the newest successful one before the
+ * current deployment, including ones since replaced, or one chosen by ID), describes what it brings back,
+ * and finds the deployment Railway creates for the rollback.
+ */
+
+import type { MultiRailwayClient } from "./railway-client.js";
+import { sleep } from "./retry.js";
+
+export interface RollbackTarget {
+  projectId: string;
+  serviceId: string;
+  environmentId: string;
+  /** Restore this deployment instead of the last successful one */
+  deploymentId?: string;
+}
+
+/** How many recent deployments to search for a successful one */
+const HISTORY = 50;
+
+/**
+ * Whether a deployment's build can be restored. Railway marks a successful
+ * deployment REMOVED once a newer one replaces it, so a REMOVED deployment
+ * counts when Railway still offers to roll back to it; one that failed or
+ * crashed never does.
+ */
+export function isRestorable(deployment: any): boolean {
+  return deployment?.status === "SUCCESS" || (deployment?.status === "REMOVED" && deployment.canRollback === true);
+}
+
+/** The parts of a deployment's meta that say what is being restored */
+export function describeBuild(deployment: any) {
+  const meta = deployment?.meta || {};
+  return {
+    deploymentId: deployment?.id,
+    status: deployment?.status,
+    createdAt: deployment?.createdAt,
+    commit: meta.commitHash ?? null,
+    commitMessage: meta.commitMessage ?? null,
+    branch: meta.branch ?? null,
+    repo: meta.repo ?? null,
+    image: meta.image ?? null,
+  };
+}
+
+export async function planRollback(railway: MultiRailwayClient, target: RollbackTarget) {
+  const { projectId, serviceId, environmentId } = target;
+  const history = (await railway.listDeployments(projectId, serviceId, environmentId, { first: HISTORY })).nodes as any[];
+  const current = history[0];
+  if (!current) throw new Error("This service has no deployments in this environment");
+
+  let restore: any;
+  if (target.deploymentId) {
+    restore = history.find((d) => d.id === target.deploymentId);
+    if (!restore) {
+      const result = (await railway.getDeployment(target.deploymentId)) as any;
+      restore = result?.deployment;
+      if (!restore) throw new Error(`Deployment ${target.deploymentId} not found`);
+      if (restore.serviceId !== serviceId || restore.environmentId !== environmentId) {
+        throw new Error(`Deployment ${target.deploymentId} belongs to a different service or environment`);
+      }
+    }
+    if (restore.id === current.id) throw new Error(`Deployment ${restore.id} is already the current deployment`);
+    if (restore.canRollback === false) {
+      throw new Error(`Railway cannot roll back to deployment ${restore.id} (status ${restore.status})`);
+    }
+  } else {
+    restore = history.slice(1).find(isRestorable);
+    if (!restore) {
+      throw new Error(`No successful deployment before ${current.id} in the last ${history.length} deployments`);
+    }
+  }
+
+  return { current: describeBuild(current), restore: describeBuild(restore), knownIds: history.map((d) => d.id) };
+}
+
+/** Wait briefly for a deployment that isn't in `knownIds` to appear */
+export async function findNewDeployment(
+  railway: MultiRailwayClient,
+  target: RollbackTarget,
+  knownIds: string[],
+  timeoutMs = 30_000
+): Promise<string | undefined> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const latest = await railway.listDeployments(target.projectId, target.serviceId, target.environmentId, { first: 5 });
+    const fresh = (latest.nodes as any[]).find((d) => !knownIds.includes(d.id));
+    if (fresh) return fresh.id;
+    if (Date.now() >= deadline) return undefined;
+    await sleep(2_000);
+  }
+}
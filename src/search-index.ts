@@ -0,0 +1,230 @@
+/**
+ * Search Index
+ * An in-memory index of workspaces, projects, environments, services,
+ * domains and (opt-in) variable names across every token, with fuzzy
+ * matching. Built on first use and rebuilt when asked to refresh.
+ */
+
+import type { MultiRailwayClient, RailwayClient } from "./railway-client.js";
+import { summarizeProject } from "./project-summary.js";
+import { mapWithConcurrency } from "./concurrency.js";
+
+export type SearchKind = "workspace" | "project" | "environment" | "service" | "domain" | "variable";
+
+export interface SearchEntry {
+  kind: SearchKind;
+  name: string;
+  /** Token label that can see it */
+  token: string;
+  /** Human-readable location, e.g. "billing-api / production / worker" */
+  path: string;
+  ids: {
+    workspaceId?: string;
+    projectId?: string;
+    environmentId?: string;
+    serviceId?: string;
+    domainId?: string;
+  };
+}
+
+export interface SearchHit extends SearchEntry {
+  score: number;
+}
+
+/** Requests in flight per token while building */
+const CONCURRENCY = 4;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s_.-]+/g, "");
+
+/** Edit distance, stopping early once it exceeds `max` */
+function distance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, current[j]);
+    }
+    if (best > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well `query` matches `name` (0 = no match): exact, then prefix,
+ * substring, all characters in order, and finally small typos.
+ */
+export function fuzzyScore(query: string, name: string): number {
+  const q = normalize(query);
+  const n = normalize(name);
+  if (!q || !n) return 0;
+  if (n === q) return 100;
+  if (n.startsWith(q)) return 90 - Math.min(20, n.length - q.length);
+  if (n.includes(q)) return 70 - Math.min(20, n.length - q.length);
+  let position = 0;
+  for (const c of n) if (c === q[position]) position++;
+  if (position === q.length) return Math.max(30, 55 - (n.length - q.length));
+  // Typos are checked against the whole name, each word and the same-length prefix
+  const allowed = q.length <= 4 ? 1 : 2;
+  const words = name.toLowerCase().split(/[\s_.\/-]+/).filter(Boolean);
+  const typos = Math.min(...[n, n.slice(0, q.length), ...words].map((candidate) => distance(q, candidate, allowed)));
+  return typos <= allowed ? 40 - typos * 10 : 0;
+}
+
+export class SearchIndex {
+  private entries: SearchEntry[] = [];
+  private variables: SearchEntry[] = [];
+  private builtAt?: number;
+  private variablesBuiltAt?: number;
+  private errors: string[] = [];
+  private variableErrors: string[] = [];
+
+  constructor(private railway: MultiRailwayClient) {}
+
+  async search(
+    query: string,
+    options: { kinds?: SearchKind[]; includeVariables?: boolean; refresh?: boolean; limit?: number } = {}
+  ) {
+    if (options.refresh || !this.builtAt) await this.build();
+    if (options.includeVariables && (options.refresh || !this.variablesBuiltAt)) await this.buildVariables();
+
+    const pool = options.includeVariables ? [...this.entries, ...this.variables] : this.entries;
+    const errors = options.includeVariables ? [...this.errors, ...this.variableErrors] : this.errors;
+    const hits: SearchHit[] = [];
+    for (const entry of pool) {
+      if (options.kinds && !options.kinds.includes(entry.kind)) continue;
+      const score = fuzzyScore(query, entry.name);
+      if (score > 0) hits.push({ ...entry, score });
+    }
+    hits.sort((a, b) => b.score - a.score || a.kind.localeCompare(b.kind) || a.path.localeCompare(b.path));
+
+    return {
+      query,
+      total: hits.length,
+      results: hits.slice(0, options.limit ?? 20),
+      indexedAt: new Date(this.builtAt!).toISOString(),
+      ...(errors.length > 0 ? { errors } : {}),
+    };
+  }
+
+  /** Index everything but variable names */
+  private async build() {
+    const results = await this.railway.fromAll(async (client) => {
+      try {
+        return await indexToken(client);
+      } catch (e) {
+        return { entries: [] as SearchEntry[], errors: [`[${client.label}] ${errorMessage(e)}`] };
+      }
+    });
+    this.entries = results.flatMap((r) => r.data.entries);
+    this.errors = results.flatMap((r) => r.data.errors);
+    this.builtAt = Date.now();
+    this.variablesBuiltAt = undefined;
+    this.variableErrors = [];
+  }
+
+  /** Variable names per scope — one request per project × environment × scope, so only on request */
+  private async buildVariables() {
+    // Shared variables plus every service, in every environment
+    const scopes: { token: string; path: string; ids: SearchEntry["ids"] }[] = [];
+    for (const env of this.entries.filter((e) => e.kind === "environment")) {
+      scopes.push({ token: env.token, path: `${env.path} / (shared)`, ids: env.ids });
+      for (const service of this.entries) {
+        if (service.kind !== "service" || service.token !== env.token || service.ids.projectId !== env.ids.projectId) continue;
+        scopes.push({
+          token: env.token,
+          path: `${env.path} / ${service.name}`,
+          ids: { ...env.ids, serviceId: service.ids.serviceId },
+        });
+      }
+    }
+
+    const results = await this.railway.fromAll(async (client) => {
+      const mine = scopes.filter((scope) => scope.token === client.label);
+      const settled = await mapWithConcurrency(mine, CONCURRENCY, async (scope) => {
+        const result = (await client.getVariables(scope.ids.projectId!, scope.ids.environmentId!, scope.ids.serviceId)) as any;
+        return Object.keys(result?.variables || {}).map(
+          (key): SearchEntry => ({ kind: "variable", name: key, token: client.label, path: `${scope.path} / ${key}`, ids: scope.ids })
+        );
+      });
+      // Scopes that fail are reported like tokens that fail in build()
+      return {
+        entries: settled.flatMap((s) => (s.status === "fulfilled" ? s.value : [])),
+        errors: settled.flatMap((s, i) =>
+          s.status === "rejected"
+            ? [`[${client.label}] ${mine[i].path}: ${errorMessage(s.reason)}`]
+            : []
+        ),
+      };
+    });
+    this.variables = results.flatMap((r) => r.data.entries);
+    this.variableErrors = results.flatMap((r) => r.data.errors);
+    this.variablesBuiltAt = Date.now();
+  }
+}
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+/**
+ * Everything one token can see. A failed workspace listing is reported in
+ * `errors` without losing the projects; a failed project listing throws.
+ */
+async function indexToken(client: RailwayClient): Promise<{ entries: SearchEntry[]; errors: string[] }> {
+  const token = client.label;
+  const entries: SearchEntry[] = [];
+  const errors: string[] = [];
+
+  try {
+    const workspaces = await client.listWorkspaces({ all: true });
+    for (const w of workspaces.nodes as any[]) {
+      entries.push({ kind: "workspace", name: w.name, token, path: w.name, ids: { workspaceId: w.id } });
+    }
+  } catch (e) {
+    errors.push(`[${token}] workspaces: ${errorMessage(e)}`);
+  }
+
+  const projects = (await client.listAllProjects()) as any[];
+  const summaries = await mapWithConcurrency(projects, CONCURRENCY, async (p) => {
+    const result = (await client.getProject(p.id)) as any;
+    return summarizeProject(result.project);
+  });
+
+  summaries.forEach((settled, i) => {
+    const listed = projects[i];
+    entries.push({ kind: "project", name: listed.name, token, path: listed.name, ids: { projectId: listed.id } });
+    if (settled.status === "rejected") return;
+    const project = settled.value;
+    const envName = new Map(project.environments.map((e) => [e.id, e.name]));
+    for (const env of project.environments) {
+      entries.push({
+        kind: "environment",
+        name: env.name,
+        token,
+        path: `${project.name} / ${env.name}`,
+        ids: { projectId: project.id, environmentId: env.id },
+      });
+    }
+    for (const service of project.services) {
+      entries.push({
+        kind: "service",
+        name: service.name,
+        token,
+        path: `${project.name} / ${service.name}`,
+        ids: { projectId: project.id, serviceId: service.id },
+      });
+      for (const domain of service.domains) {
+        entries.push({
+          kind: "domain",
+          name: domain.domain,
+          token,
+          path: `${project.name} / ${envName.get(domain.environmentId) ?? domain.environmentId} / ${service.name} / ${domain.domain}`,
+          ids: { projectId: project.id, environmentId: domain.environmentId, serviceId: service.id, domainId: domain.id },
+        });
+      }
+    }
+  });
+  return { entries, errors };
+}
@@ -0,0 +1,136 @@
+/**
+ * GraphQL Subscription Transport
+ * Minimal client for the graphql-ws ("graphql-transport-ws") protocol that
+ * Railway uses for live data such as deployment and build logs.
+ */
+
+import WebSocket from "ws";
+
+const PROTOCOL = "graphql-transport-ws";
+const SUBSCRIPTION_ID = "1";
+
+export interface SubscribeOptions {
+  url: string;
+  query: string;
+  variables?: Record<string, any>;
+  /** Headers sent with the WebSocket upgrade request */
+  headers?: Record<string, string>;
+  /** Payload of the connection_init message */
+  connectionParams?: Record<string, unknown>;
+  /** Called with the `data` of every `next` message */
+  onNext: (data: any) => void;
+  /** Aborting ends the subscription cleanly (the promise resolves) */
+  signal?: AbortSignal;
+  /** Fail if the server hasn't acknowledged the connection within this long */
+  ackTimeoutMs?: number;
+}
+
+/**
+ * Run one subscription. Resolves when the server completes it or `signal`
+ * aborts; rejects on connection failures and GraphQL errors.
+ */
+export function subscribe(options: SubscribeOptions): Promise<void> {
+  const { url, query, variables, headers, connectionParams, onNext, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const ws = new WebSocket(url, PROTOCOL, { headers });
+    let subscribed = false;
+    let settled = false;
+
+    const ackTimer = setTimeout(
+      () => finish(new Error("Subscription server did not acknowledge the connection")),
+      options.ackTimeoutMs ?? 10_000
+    );
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(ackTimer);
+      signal?.removeEventListener("abort", onAbort);
+      if (ws.readyState === WebSocket.OPEN) {
+        if (subscribed && !error) send({ id: SUBSCRIPTION_ID, type: "complete" });
+        ws.close(1000);
+      } else {
+        ws.terminate();
+      }
+      if (error) reject(error);
+      else resolve();
+    };
+
+    const onAbort = () => finish();
+    signal?.addEventListener("abort", onAbort);
+
+    const send = (message: Record<string, unknown>) => ws.send(JSON.stringify(message));
+
+    ws.on("open", () => {
+      send({ type: "connection_init", payload: connectionParams ?? {} });
+    });
+
+    ws.on("message", (raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        finish(new Error("Subscription server sent invalid JSON"));
+        return;
+      }
+
+      switch (message.type) {
+        case "connection_ack":
+          clearTimeout(ackTimer);
+          subscribed = true;
+          send({ id: SUBSCRIPTION_ID, type: "subscribe", payload: { query, variables } });
+          break;
+        case "ping":
+          send({ type: "pong" });
+          break;
+        case "next":
+          if (message.id !== SUBSCRIPTION_ID) break;
+          if (message.payload?.errors?.length) {
+            finish(graphqlError(message.payload.errors));
+            break;
+          }
+          try {
+            onNext(message.payload?.data);
+          } catch (e) {
+            finish(e instanceof Error ? e : new Error(String(e)));
+          }
+          break;
+        case "error":
+          if (message.id !== SUBSCRIPTION_ID) break;
+          subscribed = false; // The server already ended it
+          finish(graphqlError(message.payload));
+          break;
+        case "complete":
+          if (message.id !== SUBSCRIPTION_ID) break;
+          subscribed = false;
+          finish();
+          break;
+      }
+    });
+
+    ws.on("error", (e) => {
+      finish(new Error(`Subscription connection failed: ${e.message}`));
+    });
+
+    ws.on("close", (code, reason) => {
+      finish(
+        code === 1000
+          ? undefined
+          : new Error(`Subscription closed (${code})${reason.length ? `: ${reason}` : ""}`)
+      );
+    });
+  });
+}
+
+function graphqlError(errors: unknown): Error {
+  const list = Array.isArray(errors) ? errors : [errors];
+  return new Error(
+    `GraphQL subscription errors: ${list.map((e: any) => e?.message ?? String(e)).join(", ")}`
+  );
+}
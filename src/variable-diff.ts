@@ -0,0 +1,57 @@
+/**
+ * Variable Diff
+ * Compares two variable sets by key and by value hash, so differences can be
+ * reported without ever printing a value.
+ */
+
+import { createHash } from "node:crypto";
+
+export interface VariableDiff {
+  onlyInA: string[];
+  onlyInB: string[];
+  /** Present on both sides with different values */
+  different: string[];
+  /** Number of keys with identical values */
+  identical: number;
+  /** Keys skipped because they match an ignore pattern */
+  ignored: string[];
+}
+
+/** Turn "RAILWAY_*"-style patterns into a matcher; other characters match literally */
+export function keyMatcher(patterns: string[]): (key: string) => boolean {
+  const regexes = patterns.map(
+    (p) => new RegExp(`^${p.split("*").map(escapeRegExp).join(".*")}$`)
+  );
+  return (key) => regexes.some((r) => r.test(key));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const hash = (value: string) => createHash("sha256").update(value).digest("hex");
+
+export function diffVariables(
+  a: Record<string, string>,
+  b: Record<string, string>,
+  ignore: string[] = []
+): VariableDiff {
+  const isIgnored = keyMatcher(ignore);
+  const diff: VariableDiff = { onlyInA: [], onlyInB: [], different: [], identical: 0, ignored: [] };
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+
+  for (const key of keys) {
+    if (isIgnored(key)) {
+      diff.ignored.push(key);
+    } else if (!(key in b)) {
+      diff.onlyInA.push(key);
+    } else if (!(key in a)) {
+      diff.onlyInB.push(key);
+    } else if (hash(a[key]) !== hash(b[key])) {
+      diff.different.push(key);
+    } else {
+      diff.identical++;
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,247 @@
+/**
+ * Workflow Prompts
+ * Message builders for the MCP prompts. Each one gathers live context
+ * (deployment status, log excerpts, variable differences) so the model
+ * starts from the project's actual state instead of a blank instruction.
+ * Values are never included — only names, statuses and redacted logs.
+ */
+
+import type { MultiRailwayClient } from "./railway-client.js";
+import { summarizeProject, ProjectSummary } from "./project-summary.js";
+import { logTails } from "./deployment-wait.js";
+import { diffVariables } from "./variable-diff.js";
+import { fingerprint } from "./redact.js";
+
+type PromptResult = {
+  description: string;
+  messages: { role: "user"; content: { type: "text"; text: string } }[];
+};
+
+const userMessage = (description: string, text: string): PromptResult => ({
+  description,
+  messages: [{ role: "user", content: { type: "text", text } }],
+});
+
+const json = (data: unknown) => "```json\n" + JSON.stringify(data, null, 2) + "\n```";
+
+async function loadProject(railway: MultiRailwayClient, projectId: string) {
+  const result = (await railway.getProject(projectId)) as any;
+  if (!result?.project) throw new Error(`Project ${projectId} not found`);
+  return summarizeProject(result.project);
+}
+
+/** Find an environment or service of the project by ID or exact name */
+function pick<T extends { id: string; name: string }>(items: T[], wanted: string, what: string): T {
+  const found = items.find((i) => i.id === wanted) ?? items.find((i) => i.name === wanted);
+  if (!found) {
+    throw new Error(`No ${what} "${wanted}" in this project (have: ${items.map((i) => i.name).join(", ")})`);
+  }
+  return found;
+}
+
+async function latestDeployments(railway: MultiRailwayClient, project: ProjectSummary, serviceId: string, environmentId: string, count = 1) {
+  const page = await railway.listDeployments(project.id, serviceId, environmentId, { first: count });
+  return page.nodes as any[];
+}
+
+// ─── Diagnose a failing deployment ───────────────────────────
+
+export async function diagnoseDeploymentPrompt(
+  railway: MultiRailwayClient,
+  args: { project: string; service: string; environment: string }
+): Promise<PromptResult> {
+  const project = await loadProject(railway, args.project);
+  const service = pick(project.services, args.service, "service");
+  const environment = pick(project.environments, args.environment, "environment");
+  const recent = await latestDeployments(railway, project, service.id, environment.id, 5);
+  const latest = recent[0];
+
+  const context = latest
+    ? [
+        `Latest deployment ${latest.id}: ${latest.status} (created ${latest.createdAt}).`,
+        `Recent deployments:\n${json(recent.map((d) => ({ id: d.id, status: d.status, createdAt: d.createdAt })))}`,
+        `Log excerpt (last 50 lines, credentials masked):\n${json(await logTails(railway, latest.id, 50))}`,
+      ].join("\n\n")
+    : "This service has no deployments in this environment yet.";
+
+  return userMessage(
+    `Diagnose ${service.name} in ${environment.name}`,
+    `The Railway service "${service.name}" in environment "${environment.name}" of project "${project.name}" is failing. Find out why.
+
+${context}
+
+Steps:
+1. Read the logs above for the first real error (build failure, crash on start, failing health check, missing variable, out of memory).
+2. Compare with the most recent successful deployment above, if any: what changed (commit, image, variables)? Use get_deployment and diff_variables where useful.
+3. If you need more logs, use get_build_logs or get_deployment_logs on deployment ${latest?.id ?? "(none yet)"}.
+4. Explain the most likely cause and propose a fix. Do not redeploy, roll back or change variables without asking me first.
+
+IDs: project ${project.id}, service ${service.id}, environment ${environment.id}.`
+  );
+}
+
+// ─── Promote staging to production ───────────────────────────
+
+export async function promoteEnvironmentPrompt(
+  railway: MultiRailwayClient,
+  args: { project: string; service?: string; from?: string; to?: string }
+): Promise<PromptResult> {
+  const project = await loadProject(railway, args.project);
+  const from = pick(project.environments, args.from || "staging", "environment");
+  const to = pick(project.environments, args.to || "production", "environment");
+  const services = args.service ? [pick(project.services, args.service, "service")] : project.services;
+
+  const rows = [];
+  for (const service of services) {
+    const variables = async (environmentId: string) =>
+      ((await railway.getVariables(project.id, environmentId, service.id, true)) as any)?.variables || {};
+    const [fromVars, toVars, fromLatest, toLatest] = await Promise.all([
+      variables(from.id),
+      variables(to.id),
+      latestDeployments(railway, project, service.id, from.id),
+      latestDeployments(railway, project, service.id, to.id),
+    ]);
+    const diff = diffVariables(fromVars, toVars, ["RAILWAY_*"]);
+    const source = (envId: string) => service.instances.find((i) => i.environmentId === envId)?.source ?? null;
+    rows.push({
+      service: service.name,
+      source: { [from.name]: source(from.id), [to.name]: source(to.id) },
+      latestDeployment: {
+        [from.name]: fromLatest[0] ? `${fromLatest[0].status} ${fromLatest[0].createdAt}` : "none",
+        [to.name]: toLatest[0] ? `${toLatest[0].status} ${toLatest[0].createdAt}` : "none",
+      },
+      variables: {
+        [`only in ${from.name}`]: diff.onlyInA,
+        [`only in ${to.name}`]: diff.onlyInB,
+        differentValues: diff.different,
+      },
+    });
+  }
+
+  return userMessage(
+    `Promote ${from.name} to ${to.name}`,
+    `Promote what is running in "${from.name}" to "${to.name}" in Railway project "${project.name}".
+
+Current state (variable names only, compared by value hash):
+${json(rows)}
+
+Steps:
+1. Check that every service's latest ${from.name} deployment succeeded; stop and tell me if not.
+2. Go through the variable differences. Variables only in ${from.name} probably need adding to ${to.name}; differing values are often intentional (URLs, credentials). List what you would change and ask me before calling set_variables.
+3. Point ${to.name} at the same source (repo or image) as ${from.name} where they differ, then deploy each service with deploy_service and wait: true.
+4. Report each service's outcome. If a deployment fails, show the log tail and suggest a rollback.
+
+IDs: project ${project.id}, ${from.name} ${from.id}, ${to.name} ${to.id}.`
+  );
+}
+
+// ─── Rotate a secret ─────────────────────────────────────────
+
+export async function rotateSecretPrompt(
+  railway: MultiRailwayClient,
+  args: { project: string; variable: string; environment?: string }
+): Promise<PromptResult> {
+  const project = await loadProject(railway, args.project);
+  const environments = args.environment
+    ? [pick(project.environments, args.environment, "environment")]
+    : project.environments;
+
+  const holders: { environment: string; scope: string; fingerprint: string; ids: Record<string, string> }[] = [];
+  for (const env of environments) {
+    const scopes = [{ id: undefined as string | undefined, name: "shared" }, ...project.services];
+    for (const scope of scopes) {
+      const result = (await railway.getVariables(project.id, env.id, scope.id, true)) as any;
+      const value = result?.variables?.[args.variable];
+      if (typeof value === "string") {
+        holders.push({
+          environment: env.name,
+          scope: scope.name,
+          fingerprint: `sha256:${fingerprint(value)}`,
+          ids: { environmentId: env.id, ...(scope.id ? { serviceId: scope.id } : {}) },
+        });
+      }
+    }
+  }
+
+  const context =
+    holders.length > 0
+      ? `${args.variable} is set in these scopes (same fingerprint = same value):\n${json(holders)}`
+      : `${args.variable} is not set anywhere in ${environments.map((e) => e.name).join(", ")}. Stop and tell me.`;
+
+  return userMessage(
+    `Rotate ${args.variable}`,
+    `Rotate the secret ${args.variable} in Railway project "${project.name}".
+
+${context}
+
+Steps:
+1. Ask me for the new value, or which upstream system issues it. Never print the old or new value back.
+2. Scopes that share a fingerprint hold the same value; update all of them together with set_variables. Scopes with different fingerprints may be separate credentials — confirm with me before changing those.
+3. Variables that reference ${args.variable} via \${{...}} pick up the new value automatically; note any you find.
+4. Redeploy every service that uses it (shared variables affect every service in the environment) with deploy_service and wait: true, and report the outcomes.
+5. Remind me to revoke the old credential once everything is healthy.
+
+Project ID: ${project.id}.`
+  );
+}
+
+// ─── Audit for unused resources ──────────────────────────────
+
+export async function auditUnusedPrompt(
+  railway: MultiRailwayClient,
+  args: { project: string }
+): Promise<PromptResult> {
+  const project = await loadProject(railway, args.project);
+  const envName = new Map(project.environments.map((e) => [e.id, e.name]));
+
+  const services = [];
+  const activeEnvironments = new Set<string>();
+  for (const service of project.services) {
+    const deployments: Record<string, string> = {};
+    for (const env of project.environments) {
+      const [latest] = await latestDeployments(railway, project, service.id, env.id);
+      deployments[env.name] = latest ? `${latest.status} ${latest.createdAt}` : "never deployed";
+      if (latest && latest.status !== "REMOVED") activeEnvironments.add(env.id);
+    }
+    services.push({
+      name: service.name,
+      source: service.instances[0]?.source ?? null,
+      latestDeployment: deployments,
+      domains: service.domains.map((d) => `${d.domain} (${envName.get(d.environmentId) ?? d.environmentId})`),
+    });
+  }
+
+  const state = {
+    services,
+    environmentsWithoutActiveDeployments: project.environments
+      .filter((e) => !activeEnvironments.has(e.id))
+      .map((e) => e.name),
+    volumes: project.volumes.flatMap((v) =>
+      v.instances.map((i) => ({
+        name: v.name,
+        environment: envName.get(i.environmentId) ?? i.environmentId,
+        attachedTo: project.services.find((s) => s.id === i.serviceId)?.name ?? null,
+        mountPath: i.mountPath,
+      }))
+    ),
+  };
+
+  return userMessage(
+    `Audit ${project.name} for unused resources`,
+    `Audit Railway project "${project.name}" for resources that cost money or add risk without being used.
+
+Current state:
+${json(state)}
+
+Look for:
+- services that were never deployed, or whose latest deployments are all REMOVED, FAILED or CRASHED
+- environments without active deployments (old previews, abandoned staging copies)
+- volumes not attached to a service, or attached to a service that no longer runs
+- domains pointing at services that aren't running
+- services without a source
+
+For each finding, say why it looks unused and how confident you are. Don't delete anything: list the delete_* calls you would make and let me choose.
+
+Project ID: ${project.id}.`
+  );
+}
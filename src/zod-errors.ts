@@ -0,0 +1,30 @@
+/**
+ * Zod Errors
+ * Turns validation issues into one readable line for startup and tool errors.
+ */
+
+import type { ZodError, ZodIssue } from "zod";
+
+/**
+ * `quote: false` leaves out messages that can repeat the input (enum and
+ * literal mismatches, custom refinements), for input read from a file.
+ */
+export function describeZodError(error: ZodError, { quote = true } = {}): string {
+  return error.issues
+    .map((i) => `${i.path.join(".") || "(root)"}: ${quote ? i.message : quietMessage(i)}`)
+    .join("; ");
+}
+
+function quietMessage(issue: ZodIssue): string {
+  switch (issue.code) {
+    case "invalid_type":
+      return `expected ${issue.expected}, got ${issue.received}`;
+    case "too_small":
+    case "too_big":
+      return issue.message;
+    case "unrecognized_keys":
+      return "unrecognized key(s)";
+    default:
+      return issue.code.replace(/_/g, " ");
+  }
+}
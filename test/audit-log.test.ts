@@ -0,0 +1,126 @@
+import { appendFileSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditEntry, AuditLog, redactArgs } from "../src/audit-log.js";
+import { callContext } from "../src/call-context.js";
+import { Policy } from "../src/policy.js";
+import { MultiRailwayClient } from "../src/railway-client.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "railway-mcp-audit-"));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  timestamp: "2026-03-01T12:00:00.000Z",
+  action: "upsertVariables",
+  args: {},
+  targets: {},
+  outcome: "ok",
+  durationMs: 5,
+  ...overrides,
+});
+
+describe("redactArgs", () => {
+  it("masks secret-looking keys and credentials at any depth", () => {
+    const redacted = redactArgs({
+      serviceId: "s1",
+      variables: { STRIPE_SECRET_KEY: "sk_live_123", PORT: "3000" },
+      list: [{ DATABASE_URL: "postgres://app:hunter2@db:5432/app" }],
+      note: "call with Bearer abc.def.ghi",
+    }) as any;
+    expect(redacted.serviceId).toBe("s1");
+    expect(redacted.variables.PORT).toBe("3000");
+    expect(JSON.stringify(redacted)).not.toMatch(/sk_live_123|hunter2|abc\.def\.ghi/);
+  });
+});
+
+describe("AuditLog", () => {
+  it("returns nothing before the first entry is written", () => {
+    expect(new AuditLog(join(dir, "missing", "audit.jsonl")).query()).toEqual({ total: 0, entries: [] });
+  });
+
+  it("appends entries, creating the directory, and reads them back newest first with filters", () => {
+    const log = new AuditLog(join(dir, "nested", "audit.jsonl"));
+    log.record(entry({ timestamp: "2026-03-01T10:00:00.000Z", tool: "set_variables", token: "prod", targets: { project: "p1" } }));
+    log.record(entry({ timestamp: "2026-03-01T11:00:00.000Z", tool: "delete_service", action: "deleteService", outcome: "denied", token: "prod" }));
+    appendFileSync(log.path, '{"timestamp": "2026-03-01T11:30'); // torn write
+    appendFileSync(log.path, "\n");
+    log.record(entry({ timestamp: "2026-03-01T12:00:00.000Z", tool: "raw_graphql", action: "rawQuery", token: "personal", targets: { project: "p2" } }));
+
+    const all = log.query();
+    expect(all.total).toBe(3);
+    expect(all.entries.map((e) => e.tool)).toEqual(["raw_graphql", "delete_service", "set_variables"]);
+
+    expect(log.query({ since: "2026-03-01T10:30:00Z", until: "2026-03-01T11:30:00Z" }).entries.map((e) => e.tool)).toEqual([
+      "delete_service",
+    ]);
+    expect(log.query({ tool: "rawQuery" }).entries.map((e) => e.tool)).toEqual(["raw_graphql"]);
+    expect(log.query({ projectId: "p1" }).total).toBe(1);
+    expect(log.query({ outcome: "denied" }).entries[0].action).toBe("deleteService");
+    expect(log.query({ tokens: ["prod"] }).total).toBe(2);
+    expect(log.query({ limit: 1 })).toMatchObject({ total: 3, entries: [{ tool: "raw_graphql" }] });
+  });
+
+  it("rejects timestamps it can't parse", () => {
+    expect(() => new AuditLog(join(dir, "audit.jsonl")).query({ since: "yesterday" })).toThrow(
+      'since must be an ISO timestamp (got "yesterday")'
+    );
+  });
+});
+
+describe("raw GraphQL auditing", () => {
+  /** A client whose requests all answer `data`, with every mutation logged to a fresh file */
+  function setup(policy = new Policy()) {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ data: { ok: true } }), { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+    const audit = new AuditLog(join(dir, "audit.jsonl"));
+    const railway = MultiRailwayClient.fromTokens([{ token: "t", label: "prod", type: "account" }], {
+      ownershipFile: join(dir, "owners.json"),
+      audit,
+      client: { policy, apiUrl: "http://railway.test/graphql" },
+    });
+    return { railway, audit, fetch };
+  }
+
+  const inTool = <T>(fn: () => Promise<T>) => callContext.run({ tool: "raw_graphql", retries: 0, client: "ci" }, fn);
+
+  it("records a mutation that follows a query in the same document", async () => {
+    const { railway, audit, fetch } = setup();
+    const document = `query Before { me { id } }
+      mutation Upsert($input: VariableCollectionUpsertInput!) { variableCollectionUpsert(input: $input) }`;
+    const variables = JSON.stringify({ input: { projectId: "p1", variables: { API_TOKEN: "secret-value" } } });
+    await inTool(() => railway.rawQuery(document, variables));
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [recorded] = audit.query().entries;
+    expect(recorded).toMatchObject({
+      tool: "raw_graphql",
+      client: "ci",
+      action: "rawQuery",
+      token: "prod",
+      targets: { project: "p1" },
+      outcome: "ok",
+    });
+    expect(JSON.stringify(recorded.args)).not.toContain("secret-value");
+  });
+
+  it("leaves plain queries out of the log", async () => {
+    const { railway, audit } = setup();
+    await inTool(() => railway.rawQuery("query A { me { id } } query B { projects { edges { node { id } } } }"));
+    expect(audit.query().total).toBe(0);
+  });
+
+  it("records mutations the policy refuses as denied", async () => {
+    const { railway, audit, fetch } = setup(new Policy({ workspaces: { prod: { readOnly: true } } }));
+    await expect(inTool(() => railway.rawQuery(`mutation { projectDelete(id: "p1") }`))).rejects.toThrow(/read-only/);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(audit.query().entries[0]).toMatchObject({ action: "rawQuery", outcome: "denied", token: "prod" });
+  });
+});
@@ -0,0 +1,100 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { callContext } from "../src/call-context.js";
+import { configTokens, loadConfig } from "../src/config-file.js";
+import { normalizeLabel } from "../src/labels.js";
+import { Policy } from "../src/policy.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "railway-mcp-config-"));
+});
+
+const write = (name: string, content: unknown) => {
+  const file = join(dir, name);
+  writeFileSync(file, typeof content === "string" ? content : JSON.stringify(content));
+  return file;
+};
+
+describe("loadConfig", () => {
+  it("reads a valid config file", () => {
+    const file = write("config.json", {
+      workspaces: { prod: { token: "t1", type: "team" } },
+      defaults: { project: "shop", environment: "production" },
+      policy: { readOnly: true },
+      endpoint: { apiUrl: "http://localhost:4000/graphql" },
+    });
+    expect(loadConfig(file)).toMatchObject({ defaults: { project: "shop" }, policy: { readOnly: true } });
+  });
+
+  it("requires a file that was named explicitly", () => {
+    expect(() => loadConfig(join(dir, "missing.json"))).toThrow(/Could not read config file/);
+    expect(() => loadConfig(write("broken.json", "{ not json"))).toThrow(/Could not read config file/);
+  });
+
+  it("names the offending field", () => {
+    expect(() => loadConfig(write("a.json", { workspaces: { prod: { token: "t", tokenFile: "/x" } } }))).toThrow(
+      /workspaces.prod: set exactly one of token, tokenFile or tokenCommand/
+    );
+    expect(() => loadConfig(write("b.json", { endpoint: { apiUrl: "not a url" } }))).toThrow(/endpoint.apiUrl/);
+    expect(() => loadConfig(write("c.json", { unknown: true }))).toThrow(/Unrecognized key/);
+  });
+
+  it("rejects workspace keys that name the same label", () => {
+    expect(() => loadConfig(write("d.json", { workspaces: { Prod: { token: "a" }, prod: { token: "b" } } }))).toThrow(
+      'workspaces.prod: names the same token label as "Prod"'
+    );
+    expect(() => loadConfig(write("e.json", { workspaces: { my_team: { token: "a" }, "My Team": { token: "b" } } }))).toThrow(
+      /names the same token label/
+    );
+    expect(() =>
+      loadConfig(write("f.json", { policy: { workspaces: { prod_eu: { readOnly: true }, "Prod EU": { readOnly: false } } } }))
+    ).toThrow('policy.workspaces.Prod EU: names the same token label as "prod_eu"');
+  });
+
+  it("applies policy rules keyed with underscores to the token they label", () => {
+    const config = loadConfig(
+      write("policy.json", { workspaces: { PROD_EU: { token: "t" } }, policy: { workspaces: { prod_eu: { readOnly: true } } } })
+    );
+    const [{ label }] = configTokens(config);
+    const policy = new Policy(config.policy);
+    expect(() => callContext.run({ tool: "set_variables", retries: 0 }, () => policy.checkRequest(label, true))).toThrow(
+      `workspace "prod eu" is read-only`
+    );
+  });
+});
+
+describe("configTokens", () => {
+  it("resolves inline, file and command tokens under normalized labels", () => {
+    const tokenFile = write("token.txt", "  from-file\n");
+    const tokens = configTokens({
+      workspaces: {
+        Prod: { token: "inline", type: "account" },
+        My_Team: { tokenFile },
+        cmd: { tokenCommand: "echo from-command" },
+      },
+    });
+    expect(tokens).toEqual([
+      { token: "inline", label: "prod", type: "account" },
+      { token: "from-file", label: "my team", type: undefined },
+      { token: "from-command", label: "cmd", type: undefined },
+    ]);
+    // The env var RAILWAY_TOKEN_MY_TEAM labels the same token
+    expect(normalizeLabel("MY_TEAM")).toBe("my team");
+  });
+
+  it("reports unreadable files, failing commands and empty tokens by workspace key", () => {
+    expect(() => configTokens({ workspaces: { Prod: { tokenFile: join(dir, "nope") } } })).toThrow(
+      /Workspace "Prod": could not read tokenFile/
+    );
+    expect(() => configTokens({ workspaces: { ci: { tokenCommand: "echo oops >&2; exit 3" } } })).toThrow(
+      'Workspace "ci": tokenCommand failed: oops'
+    );
+    expect(() => configTokens({ workspaces: { blank: { tokenFile: write("empty.txt", "\n") } } })).toThrow(
+      'Workspace "blank": token is empty'
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { parseDotenv, renderVariables } from "../src/dotenv.js";
+
+describe("parseDotenv", () => {
+  it("reads plain, exported and commented lines", () => {
+    expect(
+      parseDotenv(["# comment", "", "PORT=3000", "export NODE_ENV = production", "NAME=api # trailing comment", "EMPTY="].join("\n"))
+    ).toEqual({ PORT: "3000", NODE_ENV: "production", NAME: "api", EMPTY: "" });
+  });
+
+  it("keeps quoted values literal, with escapes only in double quotes", () => {
+    expect(parseDotenv(`A='x\\ny # not a comment'\nB="tab\\there \\"q\\""\nC="a#b" # comment`)).toEqual({
+      A: "x\\ny # not a comment",
+      B: 'tab\there "q"',
+      C: "a#b",
+    });
+  });
+
+  it("keeps Railway references verbatim", () => {
+    expect(parseDotenv("DATABASE_URL=${{Postgres.DATABASE_URL}}")).toEqual({
+      DATABASE_URL: "${{Postgres.DATABASE_URL}}",
+    });
+  });
+
+  it("reads multiline quoted values, keeping whitespace on the first line", () => {
+    expect(parseDotenv(`KEY="  first  \n  second\nthird  "\nNEXT=1`)).toEqual({
+      KEY: "  first  \n  second\nthird  ",
+      NEXT: "1",
+    });
+    expect(parseDotenv(`CERT='\n-----BEGIN-----\n  abc\n-----END-----\n'`)).toEqual({
+      CERT: "\n-----BEGIN-----\n  abc\n-----END-----\n",
+    });
+  });
+
+  it("handles CRLF line endings", () => {
+    expect(parseDotenv("A=1\r\nB=\"x\r\ny\"\r\n")).toEqual({ A: "1", B: "x\ny" });
+  });
+
+  it("reports the right line numbers after a multiline value", () => {
+    const multiline = `A="one\ntwo\nthree"\n`;
+    expect(() => parseDotenv(`${multiline}B=2\nnot an assignment`)).toThrow("Line 5: expected KEY=value");
+    expect(() => parseDotenv(`${multiline}\n1BAD=x`)).toThrow('Line 5: invalid variable name "1BAD"');
+    expect(() => parseDotenv(`B=1\nA="one\ntwo" junk`)).toThrow("Line 3: unexpected text after closing quote");
+    expect(() => parseDotenv(`B=1\nA="one\ntwo`)).toThrow('Line 2: unterminated " quote');
+  });
+});
+
+describe("renderVariables", () => {
+  const variables = { B: "two words", A: "1", C: 'it\'s "x"\nnext' };
+
+  it("renders sorted dotenv, quoting when needed", () => {
+    expect(renderVariables(variables, "dotenv")).toBe(`A=1\nB="two words"\nC="it's \\"x\\"\\nnext"`);
+  });
+
+  it("renders shell export lines with single quotes", () => {
+    expect(renderVariables(variables, "shell")).toBe(
+      `export A='1'\nexport B='two words'\nexport C='it'\\''s "x"\nnext'`
+    );
+  });
+
+  it("refuses shell output for names a shell can't export", () => {
+    const dotted = { "app.port": "3000", "LOG-LEVEL": "debug", OK: "1" };
+    expect(() => renderVariables(dotted, "shell")).toThrow("Not valid shell variable names: LOG-LEVEL, app.port");
+    expect(renderVariables(dotted, "dotenv")).toBe("LOG-LEVEL=debug\nOK=1\napp.port=3000");
+  });
+
+  it("renders JSON", () => {
+    expect(JSON.parse(renderVariables(variables, "json"))).toEqual(variables);
+  });
+
+  it("round-trips through parseDotenv", () => {
+    expect(parseDotenv(renderVariables(variables, "dotenv"))).toEqual(variables);
+  });
+});
@@ -0,0 +1,78 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileAccess } from "../src/file-access.js";
+import { loadSnapshot } from "../src/project-snapshot.js";
+import { loadSpec } from "../src/project-spec.js";
+
+let dir: string;
+let root: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "railway-mcp-files-"));
+  root = join(dir, "allowed");
+  mkdirSync(join(root, "specs"), { recursive: true });
+  writeFileSync(join(root, "specs", "app.yaml"), "project: shop\n");
+  writeFileSync(join(dir, "secret.txt"), "RAILWAY_TOKEN=abc123\n");
+});
+
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("FileAccess", () => {
+  it("refuses every path when no directory is configured", () => {
+    const files = new FileAccess();
+    expect(files.enabled).toBe(false);
+    expect(() => files.read(join(root, "specs", "app.yaml"))).toThrow(/RAILWAY_MCP_FILES_DIR/);
+  });
+
+  it("reads relative and absolute paths inside the directory", () => {
+    const files = new FileAccess(root);
+    expect(files.read("specs/app.yaml")).toBe("project: shop\n");
+    expect(files.read(join(root, "specs", "app.yaml"))).toBe("project: shop\n");
+  });
+
+  it("rejects paths that escape the directory, including through symlinks", () => {
+    const files = new FileAccess(root);
+    symlinkSync(join(dir, "secret.txt"), join(root, "link.txt"));
+    expect(() => files.read("../secret.txt")).toThrow(/outside RAILWAY_MCP_FILES_DIR/);
+    expect(() => files.read(join(dir, "secret.txt"))).toThrow(/outside RAILWAY_MCP_FILES_DIR/);
+    expect(() => files.read("link.txt")).toThrow(/outside RAILWAY_MCP_FILES_DIR/);
+  });
+
+  it("writes inside the directory but not through a symlink pointing out of it", () => {
+    const files = new FileAccess(root);
+    files.write("out.json", "{}\n");
+    expect(readFileSync(join(root, "out.json"), "utf8")).toBe("{}\n");
+    symlinkSync(join(dir, "secret.txt"), join(root, "link.json"));
+    expect(() => files.write("link.json", "{}")).toThrow(/outside RAILWAY_MCP_FILES_DIR/);
+    expect(() => files.write("../out.json", "{}")).toThrow(/outside RAILWAY_MCP_FILES_DIR/);
+    expect(readFileSync(join(dir, "secret.txt"), "utf8")).toBe("RAILWAY_TOKEN=abc123\n");
+  });
+});
+
+describe("loadSpec from a file", () => {
+  it("does not quote the file's contents in errors", () => {
+    const files = new FileAccess(root);
+    writeFileSync(join(root, "bad.yaml"), "project: [SECRET_VALUE_1\n");
+    writeFileSync(join(root, "wrong.yaml"), "project: shop\nprune: SECRET_VALUE_2\n");
+    expect(() => loadSpec({ specPath: "bad.yaml" }, files)).toThrow(/bad.yaml is not valid JSON\/YAML \(line/);
+    expect(() => loadSpec({ specPath: "bad.yaml" }, files)).not.toThrow(/SECRET_VALUE/);
+    expect(() => loadSpec({ specPath: "wrong.yaml" }, files)).toThrow(/prune: expected boolean, got string/);
+    expect(() => loadSpec({ specPath: "wrong.yaml" }, files)).not.toThrow(/SECRET_VALUE/);
+  });
+
+  it("parses inline specs without touching the filesystem", () => {
+    expect(loadSpec({ spec: "project: shop" }, new FileAccess()).project).toBe("shop");
+  });
+});
+
+describe("loadSnapshot from a file", () => {
+  it("reads only inside the directory and does not quote the file's contents in errors", () => {
+    const files = new FileAccess(root);
+    writeFileSync(join(root, "bad.json"), '{"project": SECRET_VALUE_3}');
+    expect(() => loadSnapshot({ snapshotPath: "../secret.txt" }, files)).toThrow(/outside RAILWAY_MCP_FILES_DIR/);
+    expect(() => loadSnapshot({ snapshotPath: "bad.json" }, files)).toThrow(/bad.json is not valid JSON$/);
+    expect(() => loadSnapshot({ snapshotPath: "bad.json" }, new FileAccess())).toThrow(/RAILWAY_MCP_FILES_DIR/);
+  });
+});
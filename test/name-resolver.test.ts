@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { checkRequired, NameResolver, withNameArgs } from "../src/name-resolver.js";
+import type { MultiRailwayClient } from "../src/railway-client.js";
+
+const id = (n: number) => `00000000-0000-0000-0000-${String(n).padStart(12, "0")}`;
+const edges = (nodes: unknown[]) => ({ edges: nodes.map((node) => ({ node })) });
+
+const SHOP = id(1);
+const SHOP_COPY = id(2);
+const BLOG = id(3);
+
+/** Stand-in for MultiRailwayClient that counts the lookups it serves */
+function fakeRailway() {
+  const calls = { listAllProjects: 0, getProject: 0 };
+  const workspaces = [
+    { workspace: "prod", projects: [{ id: SHOP, name: "shop" }, { id: BLOG, name: "Blog" }] },
+    // The same project seen through a second token, plus a same-named one
+    { workspace: "personal", projects: [{ id: BLOG, name: "Blog" }, { id: SHOP_COPY, name: "shop" }] },
+  ];
+  const projects: Record<string, unknown> = {
+    [SHOP]: {
+      id: SHOP,
+      name: "shop",
+      environments: edges([{ id: id(10), name: "production" }, { id: id(11), name: "staging" }]),
+      services: edges([{ id: id(20), name: "api" }, { id: id(21), name: "API" }, { id: id(22), name: "worker" }]),
+    },
+  };
+  const railway = {
+    listAllProjects: async () => {
+      calls.listAllProjects++;
+      return { workspaces };
+    },
+    getProject: async (projectId: string) => {
+      calls.getProject++;
+      return { project: projects[projectId] };
+    },
+    getService: async (serviceId: string) => ({ service: { id: serviceId, projectId: SHOP } }),
+  };
+  return { railway: railway as unknown as MultiRailwayClient, calls, workspaces };
+}
+
+describe("NameResolver", () => {
+  it("passes IDs through and resolves names, exact match first", async () => {
+    const { railway } = fakeRailway();
+    const names = new NameResolver(railway);
+    expect(await names.resolveProject(SHOP)).toBe(SHOP);
+    expect(await names.resolveProject("blog")).toBe(BLOG);
+    expect(await names.resolveService(SHOP, "API")).toBe(id(21));
+    expect(await names.resolveService(SHOP, "Worker")).toBe(id(22));
+  });
+
+  it("reports ambiguous names with their candidates, unless a workspace narrows them", async () => {
+    const names = new NameResolver(fakeRailway().railway);
+    await expect(names.resolveProject("shop")).rejects.toThrow(/ambiguous.*prod.*personal.*Pass the ID/);
+    expect(await names.resolveProject("shop", "Personal")).toBe(SHOP_COPY);
+    await expect(names.resolveService(SHOP, "Api")).rejects.toThrow(/Service name "Api" is ambiguous in project "shop"/);
+  });
+
+  it("refreshes the cache once before reporting a name as missing", async () => {
+    const { railway, calls, workspaces } = fakeRailway();
+    const names = new NameResolver(railway);
+    expect(await names.resolveProject("blog")).toBe(BLOG);
+    expect(await names.resolveProject("blog")).toBe(BLOG);
+    expect(calls.listAllProjects).toBe(1);
+
+    workspaces[0].projects.push({ id: id(4), name: "new" });
+    expect(await names.resolveProject("new")).toBe(id(4));
+    expect(calls.listAllProjects).toBe(2);
+
+    await expect(names.resolveProject("gone", "prod")).rejects.toThrow(/No project named "gone" in workspace "prod" \(available: shop, Blog, new\)/);
+    await expect(names.resolveEnvironment(SHOP, "dev")).rejects.toThrow(/available: production, staging/);
+  });
+
+  it("fills ID arguments from names, finding the project from a serviceId when needed", async () => {
+    const names = new NameResolver(fakeRailway().railway);
+    expect(await names.resolveArgs({ project: "blog" })).toMatchObject({ projectId: BLOG });
+    expect(await names.resolveArgs({ project: SHOP, environment: "staging", service: "worker" })).toMatchObject({
+      projectId: SHOP,
+      environmentId: id(11),
+      serviceId: id(22),
+    });
+    expect(await names.resolveArgs({ serviceId: id(22), environment: "production" })).toMatchObject({
+      environmentId: id(10),
+    });
+    await expect(names.resolveArgs({ environment: "staging" })).rejects.toThrow(/Pass project \(or projectId\)/);
+  });
+});
+
+describe("withNameArgs", () => {
+  it("adds name arguments next to ID arguments and makes the IDs optional", () => {
+    const result = withNameArgs({ projectId: z.string(), serviceId: z.string().optional(), limit: z.number() });
+    expect(result?.required).toEqual(["projectId"]);
+    expect(Object.keys(result!.shape).sort()).toEqual(
+      ["limit", "project", "projectId", "service", "serviceId", "workspace"].sort()
+    );
+    expect(result!.shape.projectId.isOptional()).toBe(true);
+    expect(withNameArgs({ deploymentId: z.string() })).toBeUndefined();
+  });
+
+  it("names the missing ID and its alternative", () => {
+    expect(() => checkRequired({ projectId: SHOP }, ["projectId", "environmentId"])).toThrow(
+      "Missing environmentId (or environment)"
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { callContext } from "../src/call-context.js";
+import { Policy, PolicyError, policyFromEnv } from "../src/policy.js";
+import { RailwayClient } from "../src/railway-client.js";
+
+const inTool = <T>(tool: string, fn: () => T) => callContext.run({ tool, retries: 0 }, fn);
+
+describe("Policy", () => {
+  it("withholds write tools in read-only mode", () => {
+    const policy = new Policy({ readOnly: true });
+    expect(policy.allowsTool("get_project", true)).toBe(true);
+    expect(policy.allowsTool("delete_project", false)).toBe(false);
+  });
+
+  it("applies allow and deny lists", () => {
+    const policy = new Policy({ allowTools: ["get_project", "raw_graphql"], denyTools: ["raw_graphql"] });
+    expect(policy.allowsTool("get_project", true)).toBe(true);
+    expect(policy.allowsTool("list_projects", true)).toBe(false);
+    expect(policy.allowsTool("raw_graphql", false)).toBe(false);
+  });
+
+  it("rejects mutations through read-only workspaces, matching labels case-insensitively", () => {
+    const policy = new Policy({ workspaces: { Prod: { readOnly: true } } });
+    expect(() => inTool("set_variables", () => policy.checkRequest("prod", true))).toThrow(PolicyError);
+    expect(() => inTool("set_variables", () => policy.checkRequest("prod", true))).toThrow(
+      'workspace "prod" is read-only — set_variables cannot change it'
+    );
+    expect(() => policy.checkRequest("prod", false)).not.toThrow();
+    expect(() => policy.checkRequest("sandbox", true)).not.toThrow();
+  });
+
+  it("matches workspace keys written with underscores to the token's label", () => {
+    // RAILWAY_TOKEN_PROD_EU labels its token "prod eu"
+    const policy = new Policy(policyFromEnv({ RAILWAY_READ_ONLY_WORKSPACES: "PROD_EU" }, { workspaces: { us_east: { readOnly: true } } }));
+    expect(() => inTool("set_variables", () => policy.checkRequest("prod eu", true))).toThrow(
+      'workspace "prod eu" is read-only'
+    );
+    expect(() => inTool("set_variables", () => policy.checkRequest("us east", true))).toThrow(PolicyError);
+  });
+
+  it("checks workspace tool rules against the current tool", () => {
+    const policy = new Policy({ workspaces: { prod: { denyTools: ["get_variables"] } } });
+    expect(() => inTool("get_variables", () => policy.checkRequest("prod", false))).toThrow(
+      "tool get_variables is not allowed"
+    );
+    expect(() => inTool("get_project", () => policy.checkRequest("prod", false))).not.toThrow();
+  });
+
+  it("honors allowReveal", () => {
+    expect(new Policy().allowsReveal).toBe(true);
+    expect(new Policy({ allowReveal: false }).allowsReveal).toBe(false);
+  });
+
+  it("describes itself in one line", () => {
+    expect(new Policy().describe()).toBe("unrestricted");
+    expect(new Policy({ readOnly: true, workspaces: { prod: { denyTools: ["raw_graphql"] } } }).describe()).toBe(
+      "read-only; prod: deny raw_graphql"
+    );
+  });
+});
+
+describe("policyFromEnv", () => {
+  it("reads the shorthand env vars over the base policy", () => {
+    const config = policyFromEnv(
+      {
+        RAILWAY_READ_ONLY: "true",
+        RAILWAY_DENY_TOOLS: "raw_graphql, delete_project",
+        RAILWAY_READ_ONLY_WORKSPACES: "prod",
+        RAILWAY_ALLOW_REVEAL: "0",
+      },
+      { readOnly: false, workspaces: { prod: { denyTools: ["get_variables"] } } }
+    );
+    expect(config).toEqual({
+      readOnly: true,
+      allowReveal: false,
+      denyTools: ["raw_graphql", "delete_project"],
+      workspaces: { prod: { denyTools: ["get_variables"], readOnly: true } },
+    });
+  });
+
+  it("merges a policy file's workspace rules into the base rules per label", () => {
+    const dir = mkdtempSync(join(tmpdir(), "policy-"));
+    const file = join(dir, "policy.json");
+    writeFileSync(file, JSON.stringify({ workspaces: { PROD: { denyTools: ["raw_graphql"] }, sandbox: { readOnly: false } } }));
+    const config = policyFromEnv(
+      { RAILWAY_MCP_POLICY_FILE: file, RAILWAY_READ_ONLY_WORKSPACES: "staging" },
+      { workspaces: { prod: { readOnly: true, denyTools: ["get_variables"] }, staging: { denyTools: ["tail_logs"] } } }
+    );
+    expect(config.workspaces).toEqual({
+      prod: { readOnly: true, denyTools: ["raw_graphql"] },
+      staging: { denyTools: ["tail_logs"], readOnly: true },
+      sandbox: { readOnly: false },
+    });
+  });
+
+  it("reads a policy file and reports invalid ones", () => {
+    const dir = mkdtempSync(join(tmpdir(), "policy-"));
+    const good = join(dir, "good.json");
+    writeFileSync(good, JSON.stringify({ denyTools: ["raw_graphql"] }));
+    expect(policyFromEnv({ RAILWAY_MCP_POLICY_FILE: good }).denyTools).toEqual(["raw_graphql"]);
+
+    const bad = join(dir, "bad.json");
+    writeFileSync(bad, JSON.stringify({ readOnly: "yes" }));
+    expect(() => policyFromEnv({ RAILWAY_MCP_POLICY_FILE: bad })).toThrow(`Invalid policy file ${bad}`);
+  });
+});
+
+describe("read-only policy on raw queries", () => {
+  it("blocks mutations hidden after a fragment or another operation before sending anything", async () => {
+    const client = new RailwayClient("token", "prod", { policy: new Policy({ readOnly: true }), tokenType: "account" });
+    for (const query of [
+      `fragment F on Project { id } mutation { projectDelete(id: "p") }`,
+      `query A { me { id } } mutation B { projectDelete(id: "p") }`,
+    ]) {
+      await expect(client.rawQuery(query)).rejects.toThrow(PolicyError);
+    }
+  });
+});
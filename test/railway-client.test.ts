@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RailwayClient } from "../src/railway-client.js";
+
+type Answer = { status?: number; data?: unknown; errors?: { message: string }[] };
+
+/**
+ * Stub Railway: `answer` sees each request's query, whether it came with the
+ * project-token header and its variables, and returns the status and body to send
+ */
+function stubRailway(answer: (query: string, asProject: boolean, variables: Record<string, any>) => Answer) {
+  const requests: string[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      const { query, variables = {} } = JSON.parse(init.body as string);
+      requests.push(query);
+      const { status = 200, ...body } = answer(query, "Project-Access-Token" in headers, variables);
+      return new Response(JSON.stringify(body), { status });
+    })
+  );
+  return requests;
+}
+
+const client = () => new RailwayClient("token", "prod", { retryPolicy: { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 1000 } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("token type detection", () => {
+  it("recognizes account tokens by `me`", async () => {
+    stubRailway((query) => (query.includes("me {") ? { data: { me: { id: "u1" } } } : { status: 403 }));
+    expect(await client().resolveTokenType()).toBe("account");
+  });
+
+  it("recognizes project tokens and records their scope", async () => {
+    stubRailway((query, asProject) =>
+      asProject && query.includes("projectToken") ? { data: { projectToken: { projectId: "p1", environmentId: "e1" } } } : { status: 401 }
+    );
+    const railway = client();
+    expect(await railway.resolveTokenType()).toBe("project");
+    expect(railway.scope).toEqual({ projectId: "p1", environmentId: "e1" });
+  });
+
+  it("takes a token that can only list projects for a team token", async () => {
+    stubRailway((query, asProject) =>
+      query.includes("projects(first: 1)") && !asProject
+        ? { data: { projects: { edges: [] } } }
+        : { status: 200, errors: [{ message: "Not Authorized" }] }
+    );
+    expect(await client().resolveTokenType()).toBe("team");
+  });
+
+  it("rejects a token Railway refuses every way instead of calling it a team token", async () => {
+    const requests = stubRailway(() => ({ status: 401 }));
+    const railway = client();
+    await expect(railway.query("query { projects { edges { node { id } } } }")).rejects.toThrow(
+      "Railway rejected this token (as an account, team and project token)"
+    );
+    // Nothing past detection was sent
+    expect(requests).toHaveLength(3);
+
+    const status = await railway.validate();
+    expect(status).toMatchObject({ valid: false, error: expect.stringContaining("rejected") });
+    expect(railway.disabled).toBe(true);
+  });
+
+  it("keeps a token enabled when Railway can't be reached", async () => {
+    stubRailway(() => ({ status: 503 }));
+    const status = await client().validate();
+    expect(status.valid).toBe(true);
+    expect(status.error).toMatch(/503/);
+  });
+});
+
+describe("project token listings", () => {
+  it("lists no workspaces and exactly its own project, as complete pages", async () => {
+    stubRailway((query, asProject) => {
+      if (query.includes("projectToken")) return asProject ? { data: { projectToken: { projectId: "p1", environmentId: "e1" } } } : { status: 401 };
+      if (query.includes("project(id")) return { data: { project: { id: "p1", name: "shop" } } };
+      return { status: 403 };
+    });
+    const railway = client();
+    const done = { hasNextPage: false, endCursor: null };
+    expect(await railway.listWorkspaces()).toEqual({ nodes: [], pageInfo: done });
+    expect(await railway.listProjects()).toEqual({ nodes: [{ id: "p1", name: "shop" }], pageInfo: done });
+  });
+});
+
+describe("team token listings", () => {
+  it("lists the workspaces its projects belong to, across every page of projects", async () => {
+    const requests = stubRailway((query, _asProject, { after }) => {
+      if (query.includes("projects(first: 1)")) return { data: { projects: { edges: [] } } };
+      if (query.includes("workspace { id name }")) {
+        return {
+          data: {
+            projects: after === "c1"
+              ? { edges: [{ node: { workspace: { id: "w2", name: "Labs" } } }], pageInfo: { hasNextPage: false, endCursor: null } }
+              : {
+                  edges: [{ node: { workspace: { id: "w1", name: "Acme" } } }, { node: { workspace: { id: "w1", name: "Acme" } } }],
+                  pageInfo: { hasNextPage: true, endCursor: "c1" },
+                },
+          },
+        };
+      }
+      return { status: 200, errors: [{ message: "Not Authorized" }] };
+    });
+    const railway = client();
+    expect(await railway.listWorkspaces()).toEqual({
+      nodes: [
+        { id: "w1", name: "Acme" },
+        { id: "w2", name: "Labs" },
+      ],
+      pageInfo: { hasNextPage: false, endCursor: null },
+    });
+    // `me` was only tried during detection
+    expect(requests.filter((q) => q.includes("me {"))).toHaveLength(1);
+  });
+});
+
+describe("validate", () => {
+  it("lists a team token's workspaces from the projects it can see", async () => {
+    stubRailway((query) => {
+      if (query.includes("workspace { id name }")) {
+        return {
+          data: {
+            projects: {
+              edges: [
+                { node: { workspace: { id: "w1", name: "Acme" } } },
+                { node: { workspace: { id: "w2", name: "Labs" } } },
+                { node: { workspace: { id: "w1", name: "Acme" } } },
+              ],
+            },
+          },
+        };
+      }
+      if (query.includes("projects(first: 1)")) return { data: { projects: { edges: [] } } };
+      return { status: 403 };
+    });
+    expect(await client().validate()).toMatchObject({
+      valid: true,
+      type: "team",
+      workspaces: [
+        { id: "w1", name: "Acme" },
+        { id: "w2", name: "Labs" },
+      ],
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { backoffDelay, DEFAULT_RETRY_POLICY, isMutation, parseRetryAfter, retryPolicyFromEnv } from "../src/retry.js";
+
+describe("isMutation", () => {
+  it("recognizes single operations", () => {
+    expect(isMutation(`mutation { projectDelete(id: "p") }`)).toBe(true);
+    expect(isMutation(`  # comment\n  mutation ($id: String!) { projectDelete(id: $id) }`)).toBe(true);
+    expect(isMutation(`query { me { id } }`)).toBe(false);
+    expect(isMutation(`{ me { id } }`)).toBe(false);
+    expect(isMutation(`subscription { deploymentLogs(deploymentId: "d") { message } }`)).toBe(false);
+  });
+
+  it("finds a mutation after a fragment definition", () => {
+    expect(isMutation(`fragment F on Project { id } mutation { projectDelete(id: "p") }`)).toBe(true);
+  });
+
+  it("finds a mutation after another operation", () => {
+    expect(isMutation(`query A { me { id } } mutation B { projectDelete(id: "p") }`)).toBe(true);
+    expect(isMutation(`{ me { id } }\nmutation { projectDelete(id: "p") }`)).toBe(true);
+  });
+
+  it("ignores the word mutation in names, fields, arguments, strings and comments", () => {
+    expect(isMutation(`query mutation { me { id } }`)).toBe(false);
+    expect(isMutation(`query { mutation: me { id } }`)).toBe(false);
+    expect(isMutation(`query { project(id: "} mutation {") { id } }`)).toBe(false);
+    expect(isMutation(`query { project(id: """\n} mutation {\n""") { id } }`)).toBe(false);
+    expect(isMutation(`query { me { id } } # mutation { projectDelete(id: "p") }`)).toBe(false);
+    expect(isMutation(`query ($filter: Input = { mutation: true }) { me { id } }`)).toBe(false);
+  });
+
+  it("is not fooled by a stray closing brace", () => {
+    expect(isMutation(`} mutation { projectDelete(id: "p") }`)).toBe(true);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    const date = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())!;
+    expect(date).toBeGreaterThan(8000);
+    expect(date).toBeLessThanOrEqual(10_000);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays within the doubling ceiling and the maximum", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 250 };
+    for (let i = 0; i < 50; i++) {
+      expect(backoffDelay(policy, 1)).toBeLessThanOrEqual(100);
+      expect(backoffDelay(policy, 5)).toBeLessThanOrEqual(250);
+    }
+  });
+});
+
+describe("retryPolicyFromEnv", () => {
+  it("overrides defaults and rejects bad numbers", () => {
+    expect(retryPolicyFromEnv({ RAILWAY_MAX_RETRIES: "0" }).maxRetries).toBe(0);
+    expect(retryPolicyFromEnv({}).timeoutMs).toBe(DEFAULT_RETRY_POLICY.timeoutMs);
+    expect(() => retryPolicyFromEnv({ RAILWAY_RETRY_BASE_MS: "-1" })).toThrow("RAILWAY_RETRY_BASE_MS");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { MultiRailwayClient } from "../src/railway-client.js";
+import { findNewDeployment, planRollback } from "../src/rollback.js";
+
+const target = { projectId: "p", serviceId: "s", environmentId: "e" };
+
+/** Just enough of MultiRailwayClient for rollback planning: history is newest first */
+function fakeRailway(history: any[], extra: Record<string, any> = {}) {
+  return {
+    listDeployments: async () => ({ nodes: history, pageInfo: { hasNextPage: false, endCursor: null } }),
+    getDeployment: async (id: string) => ({ deployment: extra[id] ?? null }),
+  } as unknown as MultiRailwayClient;
+}
+
+const deployment = (id: string, status: string, more: Record<string, unknown> = {}) => ({
+  id,
+  status,
+  createdAt: `2026-01-0${id.slice(-1)}T00:00:00Z`,
+  meta: { commitHash: `commit-${id}` },
+  ...more,
+});
+
+describe("planRollback", () => {
+  it("restores a successful deployment Railway has since marked REMOVED", async () => {
+    const railway = fakeRailway([
+      deployment("d4", "CRASHED"),
+      deployment("d3", "FAILED", { canRollback: false }),
+      deployment("d2", "REMOVED", { canRollback: true }),
+      deployment("d1", "REMOVED", { canRollback: true }),
+    ]);
+    const plan = await planRollback(railway, target);
+    expect(plan.current.deploymentId).toBe("d4");
+    expect(plan.restore).toMatchObject({ deploymentId: "d2", commit: "commit-d2" });
+    expect(plan.knownIds).toEqual(["d4", "d3", "d2", "d1"]);
+  });
+
+  it("skips removed deployments that cannot be rolled back to", async () => {
+    const railway = fakeRailway([
+      deployment("d3", "SUCCESS"),
+      deployment("d2", "REMOVED", { canRollback: false }),
+      deployment("d1", "SUCCESS"),
+    ]);
+    expect((await planRollback(railway, target)).restore.deploymentId).toBe("d1");
+    await expect(planRollback(fakeRailway([deployment("d2", "SUCCESS"), deployment("d1", "FAILED")]), target)).rejects.toThrow(
+      /No successful deployment before d2/
+    );
+  });
+
+  it("checks a chosen deployment", async () => {
+    const history = [deployment("d3", "SUCCESS"), deployment("d2", "FAILED", { canRollback: false })];
+    const other = { ...deployment("d9", "SUCCESS"), serviceId: "other", environmentId: "e" };
+    const railway = fakeRailway(history, { d9: other });
+    await expect(planRollback(railway, { ...target, deploymentId: "d3" })).rejects.toThrow(/already the current/);
+    await expect(planRollback(railway, { ...target, deploymentId: "d2" })).rejects.toThrow(/cannot roll back to deployment d2/);
+    await expect(planRollback(railway, { ...target, deploymentId: "d9" })).rejects.toThrow(/different service/);
+    await expect(planRollback(railway, { ...target, deploymentId: "d0" })).rejects.toThrow(/not found/);
+  });
+});
+
+describe("findNewDeployment", () => {
+  it("returns the first deployment that was not there before", async () => {
+    const railway = fakeRailway([deployment("d5", "BUILDING"), deployment("d4", "SUCCESS")]);
+    expect(await findNewDeployment(railway, target, ["d4"])).toBe("d5");
+    expect(await findNewDeployment(railway, target, ["d4", "d5"], 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { MultiRailwayClient, RailwayClient } from "../src/railway-client.js";
+import { fuzzyScore, SearchIndex } from "../src/search-index.js";
+
+const edges = (nodes: unknown[]) => ({ edges: nodes.map((node) => ({ node })) });
+
+/**
+ * One token seeing project "shop" with two services; reading the worker's
+ * variables fails, and so does listing workspaces when `workspacesFail` is set
+ */
+function fakeRailway({ workspacesFail = false } = {}) {
+  const client = {
+    label: "prod",
+    listWorkspaces: async () => {
+      if (workspacesFail) throw new Error("GraphQL errors: Not Authorized");
+      return { nodes: [{ id: "w1", name: "Acme" }] };
+    },
+    listAllProjects: async () => [{ id: "p1", name: "shop" }],
+    getProject: async () => ({
+      project: {
+        id: "p1",
+        name: "shop",
+        environments: edges([{ id: "e1", name: "production" }]),
+        services: edges([
+          { id: "s1", name: "api" },
+          { id: "s2", name: "worker" },
+        ]),
+      },
+    }),
+    getVariables: async (_projectId: string, _environmentId: string, serviceId?: string) => {
+      if (serviceId === "s2") throw new Error("Not Authorized");
+      return { variables: serviceId ? { STRIPE_SECRET_KEY: "x" } : { SHARED_FLAG: "1" } };
+    },
+  } as unknown as RailwayClient;
+  return {
+    fromAll: async <T>(fn: (c: RailwayClient) => Promise<T>) => [{ workspace: "prod", data: await fn(client) }],
+  } as unknown as MultiRailwayClient;
+}
+
+describe("fuzzyScore", () => {
+  it("ranks exact, prefix, substring, in-order and typo matches", () => {
+    const scores = ["billing-api", "billing-api-v2", "new-billing-api", "billing-service-api", "biling-api"].map((n) =>
+      fuzzyScore("billing-api", n)
+    );
+    expect(scores[0]).toBe(100);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(fuzzyScore("api", "worker")).toBe(0);
+  });
+});
+
+describe("SearchIndex", () => {
+  it("finds resources with their ID path and token", async () => {
+    const result = await new SearchIndex(fakeRailway()).search("worker");
+    expect(result.results[0]).toMatchObject({
+      kind: "service",
+      name: "worker",
+      token: "prod",
+      path: "shop / worker",
+      ids: { projectId: "p1", serviceId: "s2" },
+    });
+    expect(result.errors).toBeUndefined();
+  });
+
+  it("keeps a token's projects when listing its workspaces fails", async () => {
+    const index = new SearchIndex(fakeRailway({ workspacesFail: true }));
+    const result = await index.search("worker");
+    expect(result.results.map((r) => r.path)).toEqual(["shop / worker"]);
+    expect(result.errors).toEqual(["[prod] workspaces: GraphQL errors: Not Authorized"]);
+    expect((await index.search("acme")).total).toBe(0);
+  });
+
+  it("reports scopes whose variables could not be read alongside the results", async () => {
+    const index = new SearchIndex(fakeRailway());
+    const result = await index.search("stripe", { includeVariables: true });
+    expect(result.results.map((r) => r.path)).toEqual(["shop / production / api / STRIPE_SECRET_KEY"]);
+    expect(result.errors).toEqual(["[prod] shop / production / worker: Not Authorized"]);
+    // Without variables, their errors don't apply
+    expect((await index.search("stripe")).errors).toBeUndefined();
+  });
+});
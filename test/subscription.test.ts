@@ -0,0 +1,148 @@
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket, WebSocketServer } from "ws";
+import { subscribe } from "../src/subscription.js";
+
+type Script = (socket: WebSocket, message: any) => void;
+
+let server: WebSocketServer;
+let url: string;
+let received: any[];
+let script: Script;
+let upgradeHeaders: Record<string, string | string[] | undefined>;
+
+beforeEach(async () => {
+  received = [];
+  server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await once(server, "listening");
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  server.on("connection", (socket, req) => {
+    upgradeHeaders = req.headers;
+    socket.on("message", (raw) => {
+      const message = JSON.parse(raw.toString());
+      received.push(message);
+      script(socket, message);
+    });
+  });
+});
+
+afterEach(async () => {
+  for (const client of server.clients) client.terminate();
+  server.close();
+  await once(server, "close");
+});
+
+const send = (socket: WebSocket, message: Record<string, unknown>) => socket.send(JSON.stringify(message));
+
+/** Acknowledge the connection, then hand subscribe messages to `onSubscribe` */
+const acking =
+  (onSubscribe: Script): Script =>
+  (socket, message) => {
+    if (message.type === "connection_init") send(socket, { type: "connection_ack" });
+    if (message.type === "subscribe") onSubscribe(socket, message);
+  };
+
+describe("subscribe", () => {
+  it("sends connection_init, subscribes after the ack and delivers next payloads until complete", async () => {
+    script = acking((socket, message) => {
+      send(socket, { id: message.id, type: "next", payload: { data: { n: 1 } } });
+      send(socket, { id: message.id, type: "next", payload: { data: { n: 2 } } });
+      send(socket, { id: message.id, type: "complete" });
+    });
+    const data: any[] = [];
+    await subscribe({
+      url,
+      query: "subscription { logs }",
+      variables: { id: "d1" },
+      headers: { Authorization: "Bearer t" },
+      connectionParams: { Authorization: "Bearer t" },
+      onNext: (d) => data.push(d),
+    });
+
+    expect(upgradeHeaders["sec-websocket-protocol"]).toBe("graphql-transport-ws");
+    expect(upgradeHeaders.authorization).toBe("Bearer t");
+    expect(received[0]).toEqual({ type: "connection_init", payload: { Authorization: "Bearer t" } });
+    expect(received[1]).toEqual({
+      id: "1",
+      type: "subscribe",
+      payload: { query: "subscription { logs }", variables: { id: "d1" } },
+    });
+    expect(data).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it("answers pings with pongs", async () => {
+    script = (socket, message) => {
+      if (message.type === "connection_init") send(socket, { type: "ping" });
+      if (message.type === "pong") send(socket, { type: "connection_ack" });
+      if (message.type === "subscribe") send(socket, { id: message.id, type: "complete" });
+    };
+    await subscribe({ url, query: "subscription { x }", onNext: () => {} });
+    expect(received.map((m) => m.type)).toEqual(["connection_init", "pong", "subscribe"]);
+  });
+
+  it("rejects with the GraphQL errors of an error message", async () => {
+    script = acking((socket, message) => {
+      send(socket, { id: message.id, type: "error", payload: [{ message: "Deployment not found" }] });
+    });
+    await expect(subscribe({ url, query: "subscription { x }", onNext: () => {} })).rejects.toThrow(
+      "GraphQL subscription errors: Deployment not found"
+    );
+  });
+
+  it("rejects when a next payload carries errors", async () => {
+    script = acking((socket, message) => {
+      send(socket, { id: message.id, type: "next", payload: { errors: [{ message: "boom" }] } });
+    });
+    const data: any[] = [];
+    await expect(subscribe({ url, query: "subscription { x }", onNext: (d) => data.push(d) })).rejects.toThrow(
+      "GraphQL subscription errors: boom"
+    );
+    expect(data).toEqual([]);
+  });
+
+  it("ignores messages for other subscription IDs", async () => {
+    script = acking((socket, message) => {
+      send(socket, { id: "other", type: "next", payload: { data: { n: 0 } } });
+      send(socket, { id: "other", type: "complete" });
+      send(socket, { id: message.id, type: "next", payload: { data: { n: 1 } } });
+      send(socket, { id: message.id, type: "complete" });
+    });
+    const data: any[] = [];
+    await subscribe({ url, query: "subscription { x }", onNext: (d) => data.push(d) });
+    expect(data).toEqual([{ n: 1 }]);
+  });
+
+  it("resolves on abort and tells the server the subscription is complete", async () => {
+    const controller = new AbortController();
+    script = acking((socket, message) => {
+      send(socket, { id: message.id, type: "next", payload: { data: { n: 1 } } });
+    });
+    const closed = new Promise((resolve) => server.once("connection", (socket) => socket.once("close", resolve)));
+    await subscribe({ url, query: "subscription { x }", onNext: () => controller.abort(), signal: controller.signal });
+    await closed;
+    expect(received.at(-1)).toEqual({ id: "1", type: "complete" });
+  });
+
+  it("resolves at once when the signal is already aborted", async () => {
+    script = () => {};
+    const controller = new AbortController();
+    controller.abort();
+    await subscribe({ url, query: "subscription { x }", onNext: () => {}, signal: controller.signal });
+    expect(received).toEqual([]);
+  });
+
+  it("fails when the server never acknowledges the connection", async () => {
+    script = () => {};
+    await expect(
+      subscribe({ url, query: "subscription { x }", onNext: () => {}, ackTimeoutMs: 50 })
+    ).rejects.toThrow("did not acknowledge");
+  });
+
+  it("fails when the connection closes abnormally", async () => {
+    script = (socket) => socket.close(4403, "Forbidden");
+    await expect(subscribe({ url, query: "subscription { x }", onNext: () => {} })).rejects.toThrow(
+      "Subscription closed (4403): Forbidden"
+    );
+  });
+});
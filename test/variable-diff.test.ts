@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { diffVariables, keyMatcher } from "../src/variable-diff.js";
+
+describe("diffVariables", () => {
+  it("reports keys on one side only, differing values and identical counts", () => {
+    expect(
+      diffVariables(
+        { A: "1", B: "2", SAME: "x", ONLY_A: "a" },
+        { A: "1", B: "3", SAME: "x", ONLY_B: "b" }
+      )
+    ).toEqual({ onlyInA: ["ONLY_A"], onlyInB: ["ONLY_B"], different: ["B"], identical: 2, ignored: [] });
+  });
+
+  it("skips ignored keys, with wildcards", () => {
+    const diff = diffVariables({ RAILWAY_ENV: "a", PORT: "1" }, { RAILWAY_ENV: "b", PORT: "1", RAILWAY_X: "c" }, [
+      "RAILWAY_*",
+    ]);
+    expect(diff.ignored).toEqual(["RAILWAY_ENV", "RAILWAY_X"]);
+    expect(diff.different).toEqual([]);
+    expect(diff.onlyInB).toEqual([]);
+  });
+
+  it("never includes values in the result", () => {
+    const diff = diffVariables({ SECRET: "hunter2" }, { SECRET: "hunter3" });
+    expect(JSON.stringify(diff)).not.toMatch(/hunter/);
+  });
+});
+
+describe("keyMatcher", () => {
+  it("treats only * as a wildcard", () => {
+    const matches = keyMatcher(["API.*", "DB_?"]);
+    expect(matches("API.KEY")).toBe(true);
+    expect(matches("APIXKEY")).toBe(false);
+    expect(matches("DB_?")).toBe(true);
+    expect(matches("DB_1")).toBe(false);
+  });
+});